@@ -0,0 +1,108 @@
+/* global self, caches, fetch, URL */
+
+// Filled in at build time by the service worker plugin in vite.config.js. The version is a hash
+// of the content of every file the build ships, so any change gets fresh caches and the previous
+// ones are dropped on activation.
+const CACHE_VERSION = __CACHE_VERSION__;
+const PRECACHE_URLS = __PRECACHE_URLS__;
+
+const CACHE_PREFIX = 'fittrack-';
+const SHELL_CACHE = `${CACHE_PREFIX}shell-${CACHE_VERSION}`;
+const RUNTIME_CACHE = `${CACHE_PREFIX}runtime-${CACHE_VERSION}`;
+
+self.addEventListener('install', (event) => {
+    event.waitUntil(
+        caches
+            .open(SHELL_CACHE)
+            .then((cache) => cache.addAll(PRECACHE_URLS))
+            .then(() => self.skipWaiting())
+    );
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil(
+        caches
+            .keys()
+            .then((names) =>
+                Promise.all(
+                    names
+                        .filter((name) => name.startsWith(CACHE_PREFIX) && name !== SHELL_CACHE && name !== RUNTIME_CACHE)
+                        .map((name) => caches.delete(name))
+                )
+            )
+            .then(() => self.clients.claim())
+    );
+});
+
+// Fetches from the network and keeps a copy, falling back to the copy when offline. The last
+// refreshed copy wins over the one precached at install.
+async function networkFirst(request, fallbackUrl) {
+    const cache = await caches.open(RUNTIME_CACHE);
+    try {
+        const response = await fetch(request);
+        if (response.ok) {
+            await cache.put(request, response.clone());
+        }
+        return response;
+    } catch (error) {
+        const cached =
+            (await cache.match(request)) ??
+            (await caches.match(request)) ??
+            (fallbackUrl && (await caches.match(fallbackUrl)));
+        if (cached) return cached;
+        throw error;
+    }
+}
+
+async function cacheFirst(request) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    const response = await fetch(request);
+    if (response.ok) {
+        const cache = await caches.open(RUNTIME_CACHE);
+        await cache.put(request, response.clone());
+    }
+    return response;
+}
+
+// Answers from the cache straight away, preferring the last refreshed copy over the precached
+// one, and refreshes the runtime copy in the background
+async function staleWhileRevalidate(event, request) {
+    const cache = await caches.open(RUNTIME_CACHE);
+    const refresh = fetch(request).then(async (response) => {
+        if (response.ok) {
+            await cache.put(request, response.clone());
+        }
+        return response;
+    });
+    const cached = (await cache.match(request)) ?? (await caches.match(request));
+    if (cached) {
+        event.waitUntil(refresh.catch(() => undefined));
+        return cached;
+    }
+    return refresh;
+}
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    const url = new URL(request.url);
+
+    // Canister calls and other origins always go to the network
+    if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) {
+        return;
+    }
+
+    if (request.mode === 'navigate') {
+        // Every route is the single-page shell, so offline navigations get the precached index
+        event.respondWith(networkFirst(request, '/index.html'));
+    } else if (url.pathname === '/env.json') {
+        // Deploy-specific canister config: fresh when online, last known when offline
+        event.respondWith(networkFirst(request));
+    } else if (url.pathname.startsWith('/assets/')) {
+        // Hashed build assets never change under the same name
+        event.respondWith(cacheFirst(request));
+    } else {
+        // Anything else keeps its name across deploys, so it is refreshed on every use
+        event.respondWith(staleWhileRevalidate(event, request));
+    }
+});
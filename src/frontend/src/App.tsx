@@ -1,9 +1,11 @@
 import { useState, useEffect, Suspense, lazy } from 'react';
 import { useInternetIdentity } from './hooks/useInternetIdentity';
-import { useGetCallerUserProfile } from './hooks/useQueries';
-import { UserProfile } from './backend';
-import { WorkoutExercise, Exercise } from './types';
+import { useGetCallerUserProfile, useGetGymSettings, useOutboxSync } from './hooks/useQueries';
+import { UserProfile, WorkoutSpec } from './backend';
+import { WorkoutExercise, Exercise, ExercisePrescription, WorkoutTemplate } from './types';
 import { WorkoutType } from './hooks/useQueries';
+import { defaultGymId } from './lib/equipment';
+import { workoutFromTemplate } from './lib/templates';
 import { Toaster } from '@/components/ui/sonner';
 import SplashScreen from './components/SplashScreen';
 import BottomNav from './components/BottomNav';
@@ -18,8 +20,10 @@ const WorkoutPreviewPage = lazy(() => import('./pages/WorkoutPreviewPage'));
 const WorkoutSessionPage = lazy(() => import('./pages/WorkoutSessionPage'));
 const HistoryPage = lazy(() => import('./pages/HistoryPage'));
 const ProgressPage = lazy(() => import('./pages/ProgressPage'));
+const AdminPage = lazy(() => import('./pages/AdminPage'));
+const TemplatesPage = lazy(() => import('./pages/TemplatesPage'));
 
-type AppPage = 'login' | 'onboarding' | 'dashboard' | 'newWorkout' | 'workoutPreview' | 'workoutSession' | 'history' | 'progress';
+type AppPage = 'login' | 'onboarding' | 'dashboard' | 'newWorkout' | 'workoutPreview' | 'workoutSession' | 'history' | 'progress' | 'admin' | 'templates';
 type NavPage = 'dashboard' | 'newWorkout' | 'history' | 'progress' | 'settings';
 
 function LoadingScreen({ message = 'Loading...' }: { message?: string }) {
@@ -39,6 +43,12 @@ function App() {
   const [currentPage, setCurrentPage] = useState<AppPage>('login');
   const [generatedWorkout, setGeneratedWorkout] = useState<WorkoutExercise[]>([]);
   const [workoutType, setWorkoutType] = useState<WorkoutType>('fullBody');
+  const [customSpec, setCustomSpec] = useState<WorkoutSpec | undefined>(undefined);
+  const [workoutGymId, setWorkoutGymId] = useState<number | undefined>(undefined);
+  // Set while previewing a template, which replaces regeneration with the template's own exercises
+  const [templateName, setTemplateName] = useState<string | undefined>(undefined);
+  const { data: gymSettings } = useGetGymSettings();
+  useOutboxSync();
   const [showSplash, setShowSplash] = useState(true);
 
   const isAuthenticated = !!identity;
@@ -61,7 +71,7 @@ function App() {
     }
   }, [isAuthenticated, userProfile, profileLoading, isFetched, currentPage]);
 
-  const handleWorkoutGenerated = (workout: WorkoutExercise[], type: WorkoutType) => {
+  const handleWorkoutGenerated = (workout: WorkoutExercise[], type: WorkoutType, spec?: WorkoutSpec, gymId?: number) => {
     // Validate workout before setting
     if (!workout || workout.length === 0) {
       toast.error('Generated workout is empty. Please try again.');
@@ -84,7 +94,7 @@ function App() {
 
     // Validate exercise data
     for (const ex of workout) {
-      if (!ex.exercise.primaryMuscleGroup || !ex.exercise.equipmentType || !ex.exercise.demoUrl) {
+      if (!ex.exercise.primaryMuscleGroup || !ex.exercise.equipmentType) {
         toast.error('Incomplete exercise data. Please regenerate workout.');
         return;
       }
@@ -100,10 +110,26 @@ function App() {
 
     setGeneratedWorkout(workout);
     setWorkoutType(type);
+    setCustomSpec(spec);
+    setTemplateName(undefined);
+    // Generation falls back to the default gym, so the saved workout is attributed to it too
+    setWorkoutGymId(gymId ?? defaultGymId(gymSettings));
     setCurrentPage('workoutPreview');
   };
 
-  const handleExerciseChange = (index: number, newExercise: Exercise) => {
+  const handleTemplateStarted = (template: WorkoutTemplate) => {
+    if (template.exercises.length === 0) {
+      toast.error('Template has no exercises');
+      return;
+    }
+    setGeneratedWorkout(workoutFromTemplate(template));
+    setTemplateName(template.name);
+    setCustomSpec(undefined);
+    setWorkoutGymId(defaultGymId(gymSettings));
+    setCurrentPage('workoutPreview');
+  };
+
+  const handleExerciseChange = (index: number, newExercise: Exercise, prescription?: ExercisePrescription) => {
     // Validate new exercise
     if (!newExercise || !newExercise.name || !newExercise.primaryMuscleGroup) {
       toast.error('Invalid exercise selected');
@@ -124,6 +150,8 @@ function App() {
     updatedWorkout[index] = {
       ...updatedWorkout[index],
       exercise: newExercise,
+      // Keep the swapped-in exercise's own progression rather than the replaced one's load
+      ...(prescription ?? {}),
     };
     setGeneratedWorkout(updatedWorkout);
   };
@@ -178,6 +206,7 @@ function App() {
             onNavigateToNewWorkout={() => setCurrentPage('newWorkout')}
             onNavigateToHistory={() => setCurrentPage('history')}
             onNavigateToProgress={() => setCurrentPage('progress')}
+            onWorkoutGenerated={handleWorkoutGenerated}
           />
         )}
         {currentPage === 'newWorkout' && userProfile && (
@@ -185,6 +214,14 @@ function App() {
             userProfile={userProfile}
             onBack={() => setCurrentPage('dashboard')}
             onWorkoutGenerated={handleWorkoutGenerated}
+            onOpenTemplates={() => setCurrentPage('templates')}
+          />
+        )}
+        {currentPage === 'templates' && userProfile && (
+          <TemplatesPage
+            userProfile={userProfile}
+            onBack={() => setCurrentPage('newWorkout')}
+            onStartTemplate={handleTemplateStarted}
           />
         )}
         {currentPage === 'workoutPreview' && userProfile && generatedWorkout.length > 0 && (
@@ -192,7 +229,10 @@ function App() {
             userProfile={userProfile}
             workout={generatedWorkout}
             workoutType={workoutType}
-            onBack={() => setCurrentPage('newWorkout')}
+            customSpec={customSpec}
+            gymId={workoutGymId}
+            templateName={templateName}
+            onBack={() => setCurrentPage(templateName ? 'templates' : 'newWorkout')}
             onStartWorkout={() => setCurrentPage('workoutSession')}
             onExerciseChange={handleExerciseChange}
           />
@@ -201,6 +241,7 @@ function App() {
           <WorkoutSessionPage
             userProfile={userProfile}
             workout={generatedWorkout}
+            gymId={workoutGymId}
             onBack={() => setCurrentPage('dashboard')}
             onExerciseChange={handleExerciseChange}
           />
@@ -211,6 +252,9 @@ function App() {
         {currentPage === 'progress' && userProfile && (
           <ProgressPage userProfile={userProfile} onBack={() => setCurrentPage('dashboard')} />
         )}
+        {currentPage === 'admin' && userProfile && (
+          <AdminPage onBack={() => setCurrentPage('dashboard')} />
+        )}
       </Suspense>
       
       {showBottomNav && userProfile && (
@@ -218,6 +262,7 @@ function App() {
           currentPage={getNavPage()}
           onNavigate={handleNavigate}
           userProfile={userProfile}
+          onOpenAdmin={() => setCurrentPage('admin')}
         />
       )}
       
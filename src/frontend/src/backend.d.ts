@@ -7,22 +7,198 @@ export interface None {
     __kind__: "None";
 }
 export type Option<T> = Some<T> | None;
+export interface WorkoutWithNote {
+    totalVolume: number;
+    note: string;
+    exercises: Array<WorkoutExercise>;
+    timestamp: bigint;
+}
+export type Result_2 = {
+    __kind__: "ok";
+    ok: Program;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export interface ProgramWeek {
+    repOffset: bigint;
+    week: bigint;
+    deload: boolean;
+    loadMultiplier: number;
+    setMultiplier: number;
+}
+export type Result_5 = {
+    __kind__: "ok";
+    ok: Gym;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export type Result_4 = {
+    __kind__: "ok";
+    ok: WorkoutTemplate;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export interface TemplateExercise {
+    reps: bigint;
+    sets: bigint;
+    exercise: Exercise;
+    targetWeight: number;
+}
+export interface AnchorLift {
+    target: string;
+    exerciseName: string;
+}
+export type Result_7 = {
+    __kind__: "ok";
+    ok: LibraryImportSummary;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export interface Workout {
+    id: bigint;
+    clientId?: string;
+    totalVolume: number;
+    exercises: Array<WorkoutExercise>;
+    gymId?: bigint;
+    timestamp: bigint;
+}
+export interface LegSubgroupRecovery {
+    legs: MuscleRecovery;
+    quads: MuscleRecovery;
+    hamstrings: MuscleRecovery;
+    glutes: MuscleRecovery;
+    calves: MuscleRecovery;
+}
+export interface WorkoutTemplate {
+    id: bigint;
+    name: string;
+    exercises: Array<TemplateExercise>;
+    updatedAt: bigint;
+}
+export interface WorkoutInput {
+    clientId: string;
+    totalVolume: number;
+    exercises: Array<WorkoutExercise>;
+    gymId?: bigint;
+    timestamp: bigint;
+}
 export interface Exercise {
     primaryMuscleGroup: string;
+    movementPattern: MovementPattern;
     recoveryTime: bigint;
     name: string;
+    secondaryMuscleGroups: Array<string>;
     equipmentType: string;
+    compound: boolean;
     demoUrl: string;
 }
-export interface WorkoutWithNote {
-    totalVolume: number;
-    note: string;
-    exercises: Array<WorkoutExercise>;
-    timestamp: bigint;
+export interface WorkoutSpec {
+    groups: Array<GroupTarget>;
+    equipmentFilter: Array<string>;
+    name: string;
+    maxExercises: bigint;
 }
-export type Result_2 = {
+export type Result_6 = {
     __kind__: "ok";
-    ok: RecoveryStateWithLegs;
+    ok: CustomExercise;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export interface AlternativeExercise {
+    suggestedWeight: number;
+    reps: bigint;
+    exercise: Exercise;
+    reason: string;
+}
+export interface MuscleRecovery {
+    recoveryTime: bigint;
+    lastTrained: bigint;
+    recoveryPercentage: number;
+}
+export interface MuscleGroupVolume {
+    hardSets: bigint;
+    bucketStart: bigint;
+    muscleGroup: string;
+    tonnage: number;
+}
+export type Result_12 = {
+    __kind__: "ok";
+    ok: UserProfile | null;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export type Result_9 = {
+    __kind__: "ok";
+    ok: Array<Workout>;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export type Result = {
+    __kind__: "ok";
+    ok: Workout;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export type Result_10 = {
+    __kind__: "ok";
+    ok: WeeklyPlan;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export interface Gym {
+    id: bigint;
+    equipment: Array<string>;
+    name: string;
+}
+export type Result_8 = {
+    __kind__: "ok";
+    ok: Array<WorkoutTemplate>;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export interface ProgramProgress {
+    currentWeek: bigint;
+    finished: boolean;
+    program: Program;
+}
+export interface WorkoutExercise {
+    setData: Array<SetData>;
+    suggestedWeight: number;
+    reps: bigint;
+    sets: bigint;
+    exercise: Exercise;
+}
+export interface UserProfile {
+    bodyweight: number;
+    muscleGroupRestInterval: bigint;
+    trainingFrequency: TrainingFrequency;
+    weightUnit: WeightUnit;
+    darkMode: boolean;
+    gender: Gender;
+    trainingGoal: TrainingGoal;
+    availableEquipment: Array<string>;
+    restTime: bigint;
+}
+export type Result_17 = {
+    __kind__: "ok";
+    ok: Array<LibraryCoverage>;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export type Result_13 = {
+    __kind__: "ok";
+    ok: Array<[string, SetConfiguration]>;
 } | {
     __kind__: "err";
     err: AppError;
@@ -53,17 +229,97 @@ export type AppError = {
     __kind__: "unauthorized";
     unauthorized: string;
 };
-export interface MuscleRecovery {
-    lastTrained: bigint;
-    recoveryPercentage: number;
+export interface VarietySettings {
+    anchors: AnchorBlock;
+    pinnedExercises: Array<string>;
+    repeatWindow: bigint;
 }
+export type Result_16 = {
+    __kind__: "ok";
+    ok: Array<MuscleGroupVolume>;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
 export type Result_1 = {
     __kind__: "ok";
-    ok: UserProfile | null;
+    ok: LibraryExercise;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export type Result_22 = {
+    __kind__: "ok";
+    ok: Array<AlternativeExercise>;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export type Result_11 = {
+    __kind__: "ok";
+    ok: VarietySettings;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export interface CustomExercise {
+    id: bigint;
+    exercise: Exercise;
+}
+export type Result_19 = {
+    __kind__: "ok";
+    ok: GymSettings;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export interface Program {
+    startedAt: bigint;
+    weeks: Array<ProgramWeek>;
+}
+export interface AnchorBlock {
+    blockStart: bigint;
+    lifts: Array<AnchorLift>;
+}
+export type Result_24 = {
+    __kind__: "ok";
+    ok: Array<[string, bigint]>;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export type Result_14 = {
+    __kind__: "ok";
+    ok: RecoveryStateWithLegs;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export interface LibraryImportSummary {
+    added: bigint;
+    updated: bigint;
+}
+export interface SetConfiguration {
+    weight: number;
+    reps: bigint;
+    sets: bigint;
+}
+export interface LibraryExercise {
+    id: bigint;
+    exercise: Exercise;
+    deprecated: boolean;
+}
+export type Result_21 = {
+    __kind__: "ok";
+    ok: Array<CustomExercise>;
 } | {
     __kind__: "err";
     err: AppError;
 };
+export interface GroupTarget {
+    limit: bigint;
+    muscleGroup: string;
+}
 export interface RecoveryStateWithLegs {
     calvesRecovery: MuscleRecovery;
     quadsRecovery: MuscleRecovery;
@@ -76,81 +332,166 @@ export interface RecoveryStateWithLegs {
     legs: MuscleRecovery;
     glutesRecovery: MuscleRecovery;
 }
-export type Result_4 = {
+export interface GymSettings {
+    gyms: Array<Gym>;
+    defaultGymId?: bigint;
+}
+export type Result_18 = {
     __kind__: "ok";
-    ok: WorkoutWithNote;
+    ok: LegSubgroupRecovery;
 } | {
     __kind__: "err";
     err: AppError;
 };
-export type Result = {
+export type Result_3 = {
     __kind__: "ok";
     ok: null;
 } | {
     __kind__: "err";
     err: AppError;
 };
-export type Result_3 = {
+export type Result_23 = {
     __kind__: "ok";
-    ok: LegSubgroupRecovery;
+    ok: WorkoutWithNote;
 } | {
     __kind__: "err";
     err: AppError;
 };
-export interface LegSubgroupRecovery {
-    legs: MuscleRecovery;
-    quads: MuscleRecovery;
-    hamstrings: MuscleRecovery;
-    glutes: MuscleRecovery;
-    calves: MuscleRecovery;
-}
-export interface WorkoutExercise {
-    setData: Array<SetData>;
-    suggestedWeight: number;
-    reps: bigint;
-    sets: bigint;
-    exercise: Exercise;
+export type Result_15 = {
+    __kind__: "ok";
+    ok: ProgramProgress | null;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export interface WeeklyPlan {
+    completedSessions: bigint;
+    startedAt: bigint;
+    sessions: Array<PlannedSession>;
+    frequency: TrainingFrequency;
 }
-export interface UserProfile {
-    bodyweight: number;
-    muscleGroupRestInterval: bigint;
-    trainingFrequency: TrainingFrequency;
-    weightUnit: WeightUnit;
-    darkMode: boolean;
-    gender: Gender;
-    restTime: bigint;
+export interface LibraryCoverage {
+    generatorLimit: bigint;
+    deprecatedCount: bigint;
+    target: string;
+    activeCount: bigint;
 }
+export type Result_20 = {
+    __kind__: "ok";
+    ok: Array<LibraryExercise>;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
 export enum Gender {
     other = "other",
     female = "female",
     male = "male"
 }
+export enum MovementPattern {
+    calfRaise = "calfRaise",
+    verticalPull = "verticalPull",
+    verticalPush = "verticalPush",
+    hinge = "hinge",
+    horizontalPull = "horizontalPull",
+    horizontalPush = "horizontalPush",
+    elbowExtension = "elbowExtension",
+    hipExtension = "hipExtension",
+    carry = "carry",
+    kneeFlexion = "kneeFlexion",
+    shoulderExtension = "shoulderExtension",
+    trunkRotation = "trunkRotation",
+    antiExtension = "antiExtension",
+    lunge = "lunge",
+    squat = "squat",
+    rearDeltFly = "rearDeltFly",
+    shoulderRaise = "shoulderRaise",
+    trunkFlexion = "trunkFlexion",
+    kneeExtension = "kneeExtension",
+    antiRotation = "antiRotation",
+    chestFly = "chestFly",
+    elbowFlexion = "elbowFlexion"
+}
+export enum PlannedSession {
+    pull = "pull",
+    push = "push",
+    lowerBody = "lowerBody",
+    fullBody = "fullBody",
+    upperBody = "upperBody"
+}
 export enum TrainingFrequency {
     threeDays = "threeDays",
     fiveDays = "fiveDays",
     fourDays = "fourDays"
 }
+export enum TrainingGoal {
+    generalFitness = "generalFitness",
+    strength = "strength",
+    endurance = "endurance",
+    hypertrophy = "hypertrophy"
+}
 export enum UserRole {
     admin = "admin",
     user = "user",
     guest = "guest"
 }
+export enum VolumeBucket {
+    day = "day",
+    month = "month",
+    week = "week"
+}
 export enum WeightUnit {
     kg = "kg",
     lb = "lb"
 }
 export interface backendInterface {
+    addLibraryExercise(exercise: Exercise): Promise<Result_1>;
     assignCallerUserRole(user: Principal, role: UserRole): Promise<void>;
-    debugGetExerciseCounts(): Promise<Array<[string, bigint]>>;
-    generateFullBodyWorkout(): Promise<Result_4>;
-    generateLowerBodyWorkout(): Promise<Result_4>;
-    generateUpperBodyWorkout(): Promise<Result_4>;
-    getCallerUserProfile(): Promise<Result_1>;
+    clearSetConfigurations(): Promise<Result_3>;
+    debugGetExerciseCounts(): Promise<Result_24>;
+    deleteCustomExercise(id: bigint): Promise<Result_3>;
+    deleteGym(id: bigint): Promise<Result_3>;
+    deleteWorkout(id: bigint): Promise<Result_3>;
+    deleteWorkoutTemplate(id: bigint): Promise<Result_3>;
+    endProgram(): Promise<Result_3>;
+    generateFullBodyWorkout(gymId: bigint | null): Promise<Result_23>;
+    generateLowerBodyWorkout(gymId: bigint | null): Promise<Result_23>;
+    generatePullWorkout(gymId: bigint | null): Promise<Result_23>;
+    generatePushWorkout(gymId: bigint | null): Promise<Result_23>;
+    generateUpperBodyWorkout(gymId: bigint | null): Promise<Result_23>;
+    generateWorkout(spec: WorkoutSpec, gymId: bigint | null): Promise<Result_23>;
+    getAlternativeExercises(muscleGroup: string, replacing: string, excludeNames: Array<string>, equipmentFilter: string | null, gymId: bigint | null): Promise<Result_22>;
+    getCallerUserProfile(): Promise<Result_12>;
     getCallerUserRole(): Promise<UserRole>;
-    getLegSubgroupRecovery(): Promise<Result_3>;
-    getRecoveryState(): Promise<Result_2>;
-    getUserProfile(user: Principal): Promise<Result_1>;
+    getCustomExercises(): Promise<Result_21>;
+    getExerciseLibrary(): Promise<Result_20>;
+    getGymSettings(): Promise<Result_19>;
+    getLegSubgroupRecovery(): Promise<Result_18>;
+    getLibraryCoverage(): Promise<Result_17>;
+    getMuscleGroupVolume(fromTs: bigint, toTs: bigint, bucket: VolumeBucket): Promise<Result_16>;
+    getProgramProgress(): Promise<Result_15>;
+    getRecoveryState(): Promise<Result_14>;
+    getSetConfigurations(): Promise<Result_13>;
+    getUserProfile(user: Principal): Promise<Result_12>;
+    getVarietySettings(): Promise<Result_11>;
+    getWeeklyPlan(): Promise<Result_10>;
+    getWorkoutHistory(): Promise<Result_9>;
+    getWorkoutTemplates(): Promise<Result_8>;
+    importLibraryExercises(exercises: Array<Exercise>): Promise<Result_7>;
     initializeAccessControl(): Promise<void>;
     isCallerAdmin(): Promise<boolean>;
-    saveCallerUserProfile(profile: UserProfile): Promise<Result>;
+    recordExerciseChange(originalExercise: string, alternativeExercise: string): Promise<Result_3>;
+    resetAnchorLifts(): Promise<Result_3>;
+    saveCallerUserProfile(profile: UserProfile): Promise<Result_3>;
+    saveCustomExercise(id: bigint | null, exercise: Exercise): Promise<Result_6>;
+    saveGym(id: bigint | null, name: string, equipment: Array<string>): Promise<Result_5>;
+    saveSetConfiguration(exerciseName: string, config: SetConfiguration): Promise<Result_3>;
+    saveWorkout(workout: WorkoutInput): Promise<Result>;
+    saveWorkoutTemplate(id: bigint | null, name: string, exercises: Array<TemplateExercise>): Promise<Result_4>;
+    setDefaultGym(id: bigint): Promise<Result_3>;
+    setExercisePinned(exerciseName: string, pinned: boolean): Promise<Result_3>;
+    setLibraryExerciseDeprecated(id: bigint, deprecated: boolean): Promise<Result_3>;
+    startProgram(weekCount: bigint): Promise<Result_2>;
+    updateLibraryExercise(id: bigint, exercise: Exercise): Promise<Result_1>;
+    updateWorkout(id: bigint, workout: WorkoutInput): Promise<Result>;
 }
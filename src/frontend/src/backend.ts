@@ -89,22 +89,198 @@ export class ExternalBlob {
         return this;
     }
 }
+export interface WorkoutWithNote {
+    totalVolume: number;
+    note: string;
+    exercises: Array<WorkoutExercise>;
+    timestamp: bigint;
+}
+export type Result_2 = {
+    __kind__: "ok";
+    ok: Program;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export interface ProgramWeek {
+    repOffset: bigint;
+    week: bigint;
+    deload: boolean;
+    loadMultiplier: number;
+    setMultiplier: number;
+}
+export type Result_5 = {
+    __kind__: "ok";
+    ok: Gym;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export type Result_4 = {
+    __kind__: "ok";
+    ok: WorkoutTemplate;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export interface TemplateExercise {
+    reps: bigint;
+    sets: bigint;
+    exercise: Exercise;
+    targetWeight: number;
+}
+export interface AnchorLift {
+    target: string;
+    exerciseName: string;
+}
+export type Result_7 = {
+    __kind__: "ok";
+    ok: LibraryImportSummary;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export interface Workout {
+    id: bigint;
+    clientId?: string;
+    totalVolume: number;
+    exercises: Array<WorkoutExercise>;
+    gymId?: bigint;
+    timestamp: bigint;
+}
+export interface LegSubgroupRecovery {
+    legs: MuscleRecovery;
+    quads: MuscleRecovery;
+    hamstrings: MuscleRecovery;
+    glutes: MuscleRecovery;
+    calves: MuscleRecovery;
+}
+export interface WorkoutTemplate {
+    id: bigint;
+    name: string;
+    exercises: Array<TemplateExercise>;
+    updatedAt: bigint;
+}
+export interface WorkoutInput {
+    clientId: string;
+    totalVolume: number;
+    exercises: Array<WorkoutExercise>;
+    gymId?: bigint;
+    timestamp: bigint;
+}
 export interface Exercise {
     primaryMuscleGroup: string;
+    movementPattern: MovementPattern;
     recoveryTime: bigint;
     name: string;
+    secondaryMuscleGroups: Array<string>;
     equipmentType: string;
+    compound: boolean;
     demoUrl: string;
 }
-export interface WorkoutWithNote {
-    totalVolume: number;
-    note: string;
-    exercises: Array<WorkoutExercise>;
-    timestamp: bigint;
+export interface WorkoutSpec {
+    groups: Array<GroupTarget>;
+    equipmentFilter: Array<string>;
+    name: string;
+    maxExercises: bigint;
 }
-export type Result_2 = {
+export type Result_6 = {
     __kind__: "ok";
-    ok: RecoveryStateWithLegs;
+    ok: CustomExercise;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export interface AlternativeExercise {
+    suggestedWeight: number;
+    reps: bigint;
+    exercise: Exercise;
+    reason: string;
+}
+export interface MuscleRecovery {
+    recoveryTime: bigint;
+    lastTrained: bigint;
+    recoveryPercentage: number;
+}
+export interface MuscleGroupVolume {
+    hardSets: bigint;
+    bucketStart: bigint;
+    muscleGroup: string;
+    tonnage: number;
+}
+export type Result_12 = {
+    __kind__: "ok";
+    ok: UserProfile | null;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export type Result_9 = {
+    __kind__: "ok";
+    ok: Array<Workout>;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export type Result = {
+    __kind__: "ok";
+    ok: Workout;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export type Result_10 = {
+    __kind__: "ok";
+    ok: WeeklyPlan;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export interface Gym {
+    id: bigint;
+    equipment: Array<string>;
+    name: string;
+}
+export type Result_8 = {
+    __kind__: "ok";
+    ok: Array<WorkoutTemplate>;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export interface ProgramProgress {
+    currentWeek: bigint;
+    finished: boolean;
+    program: Program;
+}
+export interface WorkoutExercise {
+    setData: Array<SetData>;
+    suggestedWeight: number;
+    reps: bigint;
+    sets: bigint;
+    exercise: Exercise;
+}
+export interface UserProfile {
+    bodyweight: number;
+    muscleGroupRestInterval: bigint;
+    trainingFrequency: TrainingFrequency;
+    weightUnit: WeightUnit;
+    darkMode: boolean;
+    gender: Gender;
+    trainingGoal: TrainingGoal;
+    availableEquipment: Array<string>;
+    restTime: bigint;
+}
+export type Result_17 = {
+    __kind__: "ok";
+    ok: Array<LibraryCoverage>;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export type Result_13 = {
+    __kind__: "ok";
+    ok: Array<[string, SetConfiguration]>;
 } | {
     __kind__: "err";
     err: AppError;
@@ -135,17 +311,97 @@ export type AppError = {
     __kind__: "unauthorized";
     unauthorized: string;
 };
-export interface MuscleRecovery {
-    lastTrained: bigint;
-    recoveryPercentage: number;
+export interface VarietySettings {
+    anchors: AnchorBlock;
+    pinnedExercises: Array<string>;
+    repeatWindow: bigint;
 }
+export type Result_16 = {
+    __kind__: "ok";
+    ok: Array<MuscleGroupVolume>;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
 export type Result_1 = {
     __kind__: "ok";
-    ok: UserProfile | null;
+    ok: LibraryExercise;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export type Result_22 = {
+    __kind__: "ok";
+    ok: Array<AlternativeExercise>;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export type Result_11 = {
+    __kind__: "ok";
+    ok: VarietySettings;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export interface CustomExercise {
+    id: bigint;
+    exercise: Exercise;
+}
+export type Result_19 = {
+    __kind__: "ok";
+    ok: GymSettings;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export interface Program {
+    startedAt: bigint;
+    weeks: Array<ProgramWeek>;
+}
+export interface AnchorBlock {
+    blockStart: bigint;
+    lifts: Array<AnchorLift>;
+}
+export type Result_24 = {
+    __kind__: "ok";
+    ok: Array<[string, bigint]>;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export type Result_14 = {
+    __kind__: "ok";
+    ok: RecoveryStateWithLegs;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export interface LibraryImportSummary {
+    added: bigint;
+    updated: bigint;
+}
+export interface SetConfiguration {
+    weight: number;
+    reps: bigint;
+    sets: bigint;
+}
+export interface LibraryExercise {
+    id: bigint;
+    exercise: Exercise;
+    deprecated: boolean;
+}
+export type Result_21 = {
+    __kind__: "ok";
+    ok: Array<CustomExercise>;
 } | {
     __kind__: "err";
     err: AppError;
 };
+export interface GroupTarget {
+    limit: bigint;
+    muscleGroup: string;
+}
 export interface RecoveryStateWithLegs {
     calvesRecovery: MuscleRecovery;
     quadsRecovery: MuscleRecovery;
@@ -158,334 +414,1559 @@ export interface RecoveryStateWithLegs {
     legs: MuscleRecovery;
     glutesRecovery: MuscleRecovery;
 }
-export type Result_4 = {
+export interface GymSettings {
+    gyms: Array<Gym>;
+    defaultGymId?: bigint;
+}
+export type Result_18 = {
     __kind__: "ok";
-    ok: WorkoutWithNote;
+    ok: LegSubgroupRecovery;
 } | {
     __kind__: "err";
     err: AppError;
 };
-export type Result = {
+export type Result_3 = {
     __kind__: "ok";
     ok: null;
 } | {
     __kind__: "err";
     err: AppError;
 };
-export type Result_3 = {
+export type Result_23 = {
     __kind__: "ok";
-    ok: LegSubgroupRecovery;
+    ok: WorkoutWithNote;
 } | {
     __kind__: "err";
     err: AppError;
 };
-export interface LegSubgroupRecovery {
-    legs: MuscleRecovery;
-    quads: MuscleRecovery;
-    hamstrings: MuscleRecovery;
-    glutes: MuscleRecovery;
-    calves: MuscleRecovery;
-}
-export interface WorkoutExercise {
-    setData: Array<SetData>;
-    suggestedWeight: number;
-    reps: bigint;
-    sets: bigint;
-    exercise: Exercise;
+export type Result_15 = {
+    __kind__: "ok";
+    ok: ProgramProgress | null;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
+export interface WeeklyPlan {
+    completedSessions: bigint;
+    startedAt: bigint;
+    sessions: Array<PlannedSession>;
+    frequency: TrainingFrequency;
 }
-export interface UserProfile {
-    bodyweight: number;
-    muscleGroupRestInterval: bigint;
-    trainingFrequency: TrainingFrequency;
-    weightUnit: WeightUnit;
-    darkMode: boolean;
-    gender: Gender;
-    restTime: bigint;
+export interface LibraryCoverage {
+    generatorLimit: bigint;
+    deprecatedCount: bigint;
+    target: string;
+    activeCount: bigint;
 }
+export type Result_20 = {
+    __kind__: "ok";
+    ok: Array<LibraryExercise>;
+} | {
+    __kind__: "err";
+    err: AppError;
+};
 export enum Gender {
     other = "other",
     female = "female",
     male = "male"
 }
+export enum MovementPattern {
+    calfRaise = "calfRaise",
+    verticalPull = "verticalPull",
+    verticalPush = "verticalPush",
+    hinge = "hinge",
+    horizontalPull = "horizontalPull",
+    horizontalPush = "horizontalPush",
+    elbowExtension = "elbowExtension",
+    hipExtension = "hipExtension",
+    carry = "carry",
+    kneeFlexion = "kneeFlexion",
+    shoulderExtension = "shoulderExtension",
+    trunkRotation = "trunkRotation",
+    antiExtension = "antiExtension",
+    lunge = "lunge",
+    squat = "squat",
+    rearDeltFly = "rearDeltFly",
+    shoulderRaise = "shoulderRaise",
+    trunkFlexion = "trunkFlexion",
+    kneeExtension = "kneeExtension",
+    antiRotation = "antiRotation",
+    chestFly = "chestFly",
+    elbowFlexion = "elbowFlexion"
+}
+export enum PlannedSession {
+    pull = "pull",
+    push = "push",
+    lowerBody = "lowerBody",
+    fullBody = "fullBody",
+    upperBody = "upperBody"
+}
 export enum TrainingFrequency {
     threeDays = "threeDays",
     fiveDays = "fiveDays",
     fourDays = "fourDays"
 }
+export enum TrainingGoal {
+    generalFitness = "generalFitness",
+    strength = "strength",
+    endurance = "endurance",
+    hypertrophy = "hypertrophy"
+}
 export enum UserRole {
     admin = "admin",
     user = "user",
     guest = "guest"
 }
+export enum VolumeBucket {
+    day = "day",
+    month = "month",
+    week = "week"
+}
 export enum WeightUnit {
     kg = "kg",
     lb = "lb"
 }
 export interface backendInterface {
+    addLibraryExercise(exercise: Exercise): Promise<Result_1>;
     assignCallerUserRole(user: Principal, role: UserRole): Promise<void>;
-    debugGetExerciseCounts(): Promise<Array<[string, bigint]>>;
-    generateFullBodyWorkout(): Promise<Result_4>;
-    generateLowerBodyWorkout(): Promise<Result_4>;
-    generateUpperBodyWorkout(): Promise<Result_4>;
-    getCallerUserProfile(): Promise<Result_1>;
+    clearSetConfigurations(): Promise<Result_3>;
+    debugGetExerciseCounts(): Promise<Result_24>;
+    deleteCustomExercise(id: bigint): Promise<Result_3>;
+    deleteGym(id: bigint): Promise<Result_3>;
+    deleteWorkout(id: bigint): Promise<Result_3>;
+    deleteWorkoutTemplate(id: bigint): Promise<Result_3>;
+    endProgram(): Promise<Result_3>;
+    generateFullBodyWorkout(gymId: bigint | null): Promise<Result_23>;
+    generateLowerBodyWorkout(gymId: bigint | null): Promise<Result_23>;
+    generatePullWorkout(gymId: bigint | null): Promise<Result_23>;
+    generatePushWorkout(gymId: bigint | null): Promise<Result_23>;
+    generateUpperBodyWorkout(gymId: bigint | null): Promise<Result_23>;
+    generateWorkout(spec: WorkoutSpec, gymId: bigint | null): Promise<Result_23>;
+    getAlternativeExercises(muscleGroup: string, replacing: string, excludeNames: Array<string>, equipmentFilter: string | null, gymId: bigint | null): Promise<Result_22>;
+    getCallerUserProfile(): Promise<Result_12>;
     getCallerUserRole(): Promise<UserRole>;
-    getLegSubgroupRecovery(): Promise<Result_3>;
-    getRecoveryState(): Promise<Result_2>;
-    getUserProfile(user: Principal): Promise<Result_1>;
+    getCustomExercises(): Promise<Result_21>;
+    getExerciseLibrary(): Promise<Result_20>;
+    getGymSettings(): Promise<Result_19>;
+    getLegSubgroupRecovery(): Promise<Result_18>;
+    getLibraryCoverage(): Promise<Result_17>;
+    getMuscleGroupVolume(fromTs: bigint, toTs: bigint, bucket: VolumeBucket): Promise<Result_16>;
+    getProgramProgress(): Promise<Result_15>;
+    getRecoveryState(): Promise<Result_14>;
+    getSetConfigurations(): Promise<Result_13>;
+    getUserProfile(user: Principal): Promise<Result_12>;
+    getVarietySettings(): Promise<Result_11>;
+    getWeeklyPlan(): Promise<Result_10>;
+    getWorkoutHistory(): Promise<Result_9>;
+    getWorkoutTemplates(): Promise<Result_8>;
+    importLibraryExercises(exercises: Array<Exercise>): Promise<Result_7>;
     initializeAccessControl(): Promise<void>;
     isCallerAdmin(): Promise<boolean>;
-    saveCallerUserProfile(profile: UserProfile): Promise<Result>;
+    recordExerciseChange(originalExercise: string, alternativeExercise: string): Promise<Result_3>;
+    resetAnchorLifts(): Promise<Result_3>;
+    saveCallerUserProfile(profile: UserProfile): Promise<Result_3>;
+    saveCustomExercise(id: bigint | null, exercise: Exercise): Promise<Result_6>;
+    saveGym(id: bigint | null, name: string, equipment: Array<string>): Promise<Result_5>;
+    saveSetConfiguration(exerciseName: string, config: SetConfiguration): Promise<Result_3>;
+    saveWorkout(workout: WorkoutInput): Promise<Result>;
+    saveWorkoutTemplate(id: bigint | null, name: string, exercises: Array<TemplateExercise>): Promise<Result_4>;
+    setDefaultGym(id: bigint): Promise<Result_3>;
+    setExercisePinned(exerciseName: string, pinned: boolean): Promise<Result_3>;
+    setLibraryExerciseDeprecated(id: bigint, deprecated: boolean): Promise<Result_3>;
+    startProgram(weekCount: bigint): Promise<Result_2>;
+    updateLibraryExercise(id: bigint, exercise: Exercise): Promise<Result_1>;
+    updateWorkout(id: bigint, workout: WorkoutInput): Promise<Result>;
 }
-import type { AppError as _AppError, Gender as _Gender, LegSubgroupRecovery as _LegSubgroupRecovery, RecoveryStateWithLegs as _RecoveryStateWithLegs, Result as _Result, Result_1 as _Result_1, Result_2 as _Result_2, Result_3 as _Result_3, Result_4 as _Result_4, TrainingFrequency as _TrainingFrequency, UserProfile as _UserProfile, UserRole as _UserRole, WeightUnit as _WeightUnit, WorkoutWithNote as _WorkoutWithNote } from "./declarations/backend.did.d.ts";
+import type { AlternativeExercise as _AlternativeExercise, AppError as _AppError, CustomExercise as _CustomExercise, Exercise as _Exercise, Gender as _Gender, Gym as _Gym, GymSettings as _GymSettings, LegSubgroupRecovery as _LegSubgroupRecovery, LibraryCoverage as _LibraryCoverage, LibraryExercise as _LibraryExercise, LibraryImportSummary as _LibraryImportSummary, MovementPattern as _MovementPattern, MuscleGroupVolume as _MuscleGroupVolume, PlannedSession as _PlannedSession, Program as _Program, ProgramProgress as _ProgramProgress, RecoveryStateWithLegs as _RecoveryStateWithLegs, Result as _Result, Result_1 as _Result_1, Result_10 as _Result_10, Result_11 as _Result_11, Result_12 as _Result_12, Result_13 as _Result_13, Result_14 as _Result_14, Result_15 as _Result_15, Result_16 as _Result_16, Result_17 as _Result_17, Result_18 as _Result_18, Result_19 as _Result_19, Result_2 as _Result_2, Result_20 as _Result_20, Result_21 as _Result_21, Result_22 as _Result_22, Result_23 as _Result_23, Result_24 as _Result_24, Result_3 as _Result_3, Result_4 as _Result_4, Result_5 as _Result_5, Result_6 as _Result_6, Result_7 as _Result_7, Result_8 as _Result_8, Result_9 as _Result_9, SetConfiguration as _SetConfiguration, SetData as _SetData, TemplateExercise as _TemplateExercise, TrainingFrequency as _TrainingFrequency, TrainingGoal as _TrainingGoal, UserProfile as _UserProfile, UserRole as _UserRole, VarietySettings as _VarietySettings, VolumeBucket as _VolumeBucket, WeeklyPlan as _WeeklyPlan, WeightUnit as _WeightUnit, Workout as _Workout, WorkoutExercise as _WorkoutExercise, WorkoutInput as _WorkoutInput, WorkoutTemplate as _WorkoutTemplate, WorkoutWithNote as _WorkoutWithNote } from "./declarations/backend.did.d.ts";
 export class Backend implements backendInterface {
     constructor(private actor: ActorSubclass<_SERVICE>, private _uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, private _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, private processError?: (error: unknown) => never){}
-    async assignCallerUserRole(arg0: Principal, arg1: UserRole): Promise<void> {
+    async addLibraryExercise(arg0: Exercise): Promise<Result_1> {
         if (this.processError) {
             try {
-                const result = await this.actor.assignCallerUserRole(arg0, to_candid_UserRole_n1(this._uploadFile, this._downloadFile, arg1));
-                return result;
+                const result = await this.actor.addLibraryExercise(to_candid_Exercise_n1(this._uploadFile, this._downloadFile, arg0));
+                return from_candid_Result_1_n5(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.assignCallerUserRole(arg0, to_candid_UserRole_n1(this._uploadFile, this._downloadFile, arg1));
-            return result;
+            const result = await this.actor.addLibraryExercise(to_candid_Exercise_n1(this._uploadFile, this._downloadFile, arg0));
+            return from_candid_Result_1_n5(this._uploadFile, this._downloadFile, result);
         }
     }
-    async debugGetExerciseCounts(): Promise<Array<[string, bigint]>> {
+    async assignCallerUserRole(arg0: Principal, arg1: UserRole): Promise<void> {
         if (this.processError) {
             try {
-                const result = await this.actor.debugGetExerciseCounts();
+                const result = await this.actor.assignCallerUserRole(arg0, to_candid_UserRole_n15(this._uploadFile, this._downloadFile, arg1));
                 return result;
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.debugGetExerciseCounts();
+            const result = await this.actor.assignCallerUserRole(arg0, to_candid_UserRole_n15(this._uploadFile, this._downloadFile, arg1));
             return result;
         }
     }
-    async generateFullBodyWorkout(): Promise<Result_4> {
+    async clearSetConfigurations(): Promise<Result_3> {
         if (this.processError) {
             try {
-                const result = await this.actor.generateFullBodyWorkout();
-                return from_candid_Result_4_n3(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.clearSetConfigurations();
+                return from_candid_Result_3_n17(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.generateFullBodyWorkout();
-            return from_candid_Result_4_n3(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.clearSetConfigurations();
+            return from_candid_Result_3_n17(this._uploadFile, this._downloadFile, result);
         }
     }
-    async generateLowerBodyWorkout(): Promise<Result_4> {
+    async debugGetExerciseCounts(): Promise<Result_24> {
         if (this.processError) {
             try {
-                const result = await this.actor.generateLowerBodyWorkout();
-                return from_candid_Result_4_n3(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.debugGetExerciseCounts();
+                return from_candid_Result_24_n19(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.generateLowerBodyWorkout();
-            return from_candid_Result_4_n3(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.debugGetExerciseCounts();
+            return from_candid_Result_24_n19(this._uploadFile, this._downloadFile, result);
         }
     }
-    async generateUpperBodyWorkout(): Promise<Result_4> {
+    async deleteCustomExercise(arg0: bigint): Promise<Result_3> {
         if (this.processError) {
             try {
-                const result = await this.actor.generateUpperBodyWorkout();
-                return from_candid_Result_4_n3(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.deleteCustomExercise(arg0);
+                return from_candid_Result_3_n17(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.generateUpperBodyWorkout();
-            return from_candid_Result_4_n3(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.deleteCustomExercise(arg0);
+            return from_candid_Result_3_n17(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getCallerUserProfile(): Promise<Result_1> {
+    async deleteGym(arg0: bigint): Promise<Result_3> {
         if (this.processError) {
             try {
-                const result = await this.actor.getCallerUserProfile();
-                return from_candid_Result_1_n7(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.deleteGym(arg0);
+                return from_candid_Result_3_n17(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getCallerUserProfile();
-            return from_candid_Result_1_n7(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.deleteGym(arg0);
+            return from_candid_Result_3_n17(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getCallerUserRole(): Promise<UserRole> {
+    async deleteWorkout(arg0: bigint): Promise<Result_3> {
         if (this.processError) {
             try {
-                const result = await this.actor.getCallerUserRole();
-                return from_candid_UserRole_n18(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.deleteWorkout(arg0);
+                return from_candid_Result_3_n17(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getCallerUserRole();
-            return from_candid_UserRole_n18(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.deleteWorkout(arg0);
+            return from_candid_Result_3_n17(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getLegSubgroupRecovery(): Promise<Result_3> {
+    async deleteWorkoutTemplate(arg0: bigint): Promise<Result_3> {
         if (this.processError) {
             try {
-                const result = await this.actor.getLegSubgroupRecovery();
-                return from_candid_Result_3_n20(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.deleteWorkoutTemplate(arg0);
+                return from_candid_Result_3_n17(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getLegSubgroupRecovery();
-            return from_candid_Result_3_n20(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.deleteWorkoutTemplate(arg0);
+            return from_candid_Result_3_n17(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getRecoveryState(): Promise<Result_2> {
+    async endProgram(): Promise<Result_3> {
         if (this.processError) {
             try {
-                const result = await this.actor.getRecoveryState();
-                return from_candid_Result_2_n22(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.endProgram();
+                return from_candid_Result_3_n17(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getRecoveryState();
-            return from_candid_Result_2_n22(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.endProgram();
+            return from_candid_Result_3_n17(this._uploadFile, this._downloadFile, result);
         }
     }
-    async getUserProfile(arg0: Principal): Promise<Result_1> {
+    async generateFullBodyWorkout(arg0: bigint | null): Promise<Result_23> {
         if (this.processError) {
             try {
-                const result = await this.actor.getUserProfile(arg0);
-                return from_candid_Result_1_n7(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.generateFullBodyWorkout(to_candid_opt_n21(this._uploadFile, this._downloadFile, arg0));
+                return from_candid_Result_23_n22(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.getUserProfile(arg0);
-            return from_candid_Result_1_n7(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.generateFullBodyWorkout(to_candid_opt_n21(this._uploadFile, this._downloadFile, arg0));
+            return from_candid_Result_23_n22(this._uploadFile, this._downloadFile, result);
         }
     }
-    async initializeAccessControl(): Promise<void> {
+    async generateLowerBodyWorkout(arg0: bigint | null): Promise<Result_23> {
         if (this.processError) {
             try {
-                const result = await this.actor.initializeAccessControl();
-                return result;
+                const result = await this.actor.generateLowerBodyWorkout(to_candid_opt_n21(this._uploadFile, this._downloadFile, arg0));
+                return from_candid_Result_23_n22(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.initializeAccessControl();
-            return result;
+            const result = await this.actor.generateLowerBodyWorkout(to_candid_opt_n21(this._uploadFile, this._downloadFile, arg0));
+            return from_candid_Result_23_n22(this._uploadFile, this._downloadFile, result);
         }
     }
-    async isCallerAdmin(): Promise<boolean> {
+    async generatePullWorkout(arg0: bigint | null): Promise<Result_23> {
         if (this.processError) {
             try {
-                const result = await this.actor.isCallerAdmin();
-                return result;
+                const result = await this.actor.generatePullWorkout(to_candid_opt_n21(this._uploadFile, this._downloadFile, arg0));
+                return from_candid_Result_23_n22(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.isCallerAdmin();
-            return result;
+            const result = await this.actor.generatePullWorkout(to_candid_opt_n21(this._uploadFile, this._downloadFile, arg0));
+            return from_candid_Result_23_n22(this._uploadFile, this._downloadFile, result);
         }
     }
-    async saveCallerUserProfile(arg0: UserProfile): Promise<Result> {
+    async generatePushWorkout(arg0: bigint | null): Promise<Result_23> {
         if (this.processError) {
             try {
-                const result = await this.actor.saveCallerUserProfile(to_candid_UserProfile_n24(this._uploadFile, this._downloadFile, arg0));
-                return from_candid_Result_n32(this._uploadFile, this._downloadFile, result);
+                const result = await this.actor.generatePushWorkout(to_candid_opt_n21(this._uploadFile, this._downloadFile, arg0));
+                return from_candid_Result_23_n22(this._uploadFile, this._downloadFile, result);
             } catch (e) {
                 this.processError(e);
                 throw new Error("unreachable");
             }
         } else {
-            const result = await this.actor.saveCallerUserProfile(to_candid_UserProfile_n24(this._uploadFile, this._downloadFile, arg0));
-            return from_candid_Result_n32(this._uploadFile, this._downloadFile, result);
+            const result = await this.actor.generatePushWorkout(to_candid_opt_n21(this._uploadFile, this._downloadFile, arg0));
+            return from_candid_Result_23_n22(this._uploadFile, this._downloadFile, result);
         }
     }
+    async generateUpperBodyWorkout(arg0: bigint | null): Promise<Result_23> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.generateUpperBodyWorkout(to_candid_opt_n21(this._uploadFile, this._downloadFile, arg0));
+                return from_candid_Result_23_n22(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.generateUpperBodyWorkout(to_candid_opt_n21(this._uploadFile, this._downloadFile, arg0));
+            return from_candid_Result_23_n22(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async generateWorkout(arg0: WorkoutSpec, arg1: bigint | null): Promise<Result_23> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.generateWorkout(arg0, to_candid_opt_n21(this._uploadFile, this._downloadFile, arg1));
+                return from_candid_Result_23_n22(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.generateWorkout(arg0, to_candid_opt_n21(this._uploadFile, this._downloadFile, arg1));
+            return from_candid_Result_23_n22(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getAlternativeExercises(arg0: string, arg1: string, arg2: Array<string>, arg3: string | null, arg4: bigint | null): Promise<Result_22> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getAlternativeExercises(arg0, arg1, arg2, to_candid_opt_n29(this._uploadFile, this._downloadFile, arg3), to_candid_opt_n21(this._uploadFile, this._downloadFile, arg4));
+                return from_candid_Result_22_n30(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getAlternativeExercises(arg0, arg1, arg2, to_candid_opt_n29(this._uploadFile, this._downloadFile, arg3), to_candid_opt_n21(this._uploadFile, this._downloadFile, arg4));
+            return from_candid_Result_22_n30(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getCallerUserProfile(): Promise<Result_12> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getCallerUserProfile();
+                return from_candid_Result_12_n35(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getCallerUserProfile();
+            return from_candid_Result_12_n35(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getCallerUserRole(): Promise<UserRole> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getCallerUserRole();
+                return from_candid_UserRole_n48(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getCallerUserRole();
+            return from_candid_UserRole_n48(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getCustomExercises(): Promise<Result_21> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getCustomExercises();
+                return from_candid_Result_21_n50(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getCustomExercises();
+            return from_candid_Result_21_n50(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getExerciseLibrary(): Promise<Result_20> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getExerciseLibrary();
+                return from_candid_Result_20_n55(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getExerciseLibrary();
+            return from_candid_Result_20_n55(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getGymSettings(): Promise<Result_19> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getGymSettings();
+                return from_candid_Result_19_n58(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getGymSettings();
+            return from_candid_Result_19_n58(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getLegSubgroupRecovery(): Promise<Result_18> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getLegSubgroupRecovery();
+                return from_candid_Result_18_n63(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getLegSubgroupRecovery();
+            return from_candid_Result_18_n63(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getLibraryCoverage(): Promise<Result_17> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getLibraryCoverage();
+                return from_candid_Result_17_n65(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getLibraryCoverage();
+            return from_candid_Result_17_n65(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getMuscleGroupVolume(arg0: bigint, arg1: bigint, arg2: VolumeBucket): Promise<Result_16> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getMuscleGroupVolume(arg0, arg1, to_candid_VolumeBucket_n67(this._uploadFile, this._downloadFile, arg2));
+                return from_candid_Result_16_n69(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getMuscleGroupVolume(arg0, arg1, to_candid_VolumeBucket_n67(this._uploadFile, this._downloadFile, arg2));
+            return from_candid_Result_16_n69(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getProgramProgress(): Promise<Result_15> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getProgramProgress();
+                return from_candid_Result_15_n71(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getProgramProgress();
+            return from_candid_Result_15_n71(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getRecoveryState(): Promise<Result_14> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getRecoveryState();
+                return from_candid_Result_14_n74(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getRecoveryState();
+            return from_candid_Result_14_n74(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getSetConfigurations(): Promise<Result_13> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getSetConfigurations();
+                return from_candid_Result_13_n76(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getSetConfigurations();
+            return from_candid_Result_13_n76(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getUserProfile(arg0: Principal): Promise<Result_12> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getUserProfile(arg0);
+                return from_candid_Result_12_n35(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getUserProfile(arg0);
+            return from_candid_Result_12_n35(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getVarietySettings(): Promise<Result_11> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getVarietySettings();
+                return from_candid_Result_11_n78(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getVarietySettings();
+            return from_candid_Result_11_n78(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getWeeklyPlan(): Promise<Result_10> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getWeeklyPlan();
+                return from_candid_Result_10_n80(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getWeeklyPlan();
+            return from_candid_Result_10_n80(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getWorkoutHistory(): Promise<Result_9> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getWorkoutHistory();
+                return from_candid_Result_9_n87(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getWorkoutHistory();
+            return from_candid_Result_9_n87(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async getWorkoutTemplates(): Promise<Result_8> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.getWorkoutTemplates();
+                return from_candid_Result_8_n93(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.getWorkoutTemplates();
+            return from_candid_Result_8_n93(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async importLibraryExercises(arg0: Array<Exercise>): Promise<Result_7> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.importLibraryExercises(to_candid_vec_n101(this._uploadFile, this._downloadFile, arg0));
+                return from_candid_Result_7_n102(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.importLibraryExercises(to_candid_vec_n101(this._uploadFile, this._downloadFile, arg0));
+            return from_candid_Result_7_n102(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async initializeAccessControl(): Promise<void> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.initializeAccessControl();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.initializeAccessControl();
+            return result;
+        }
+    }
+    async isCallerAdmin(): Promise<boolean> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.isCallerAdmin();
+                return result;
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.isCallerAdmin();
+            return result;
+        }
+    }
+    async recordExerciseChange(arg0: string, arg1: string): Promise<Result_3> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.recordExerciseChange(arg0, arg1);
+                return from_candid_Result_3_n17(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.recordExerciseChange(arg0, arg1);
+            return from_candid_Result_3_n17(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async resetAnchorLifts(): Promise<Result_3> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.resetAnchorLifts();
+                return from_candid_Result_3_n17(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.resetAnchorLifts();
+            return from_candid_Result_3_n17(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async saveCallerUserProfile(arg0: UserProfile): Promise<Result_3> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.saveCallerUserProfile(to_candid_UserProfile_n104(this._uploadFile, this._downloadFile, arg0));
+                return from_candid_Result_3_n17(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.saveCallerUserProfile(to_candid_UserProfile_n104(this._uploadFile, this._downloadFile, arg0));
+            return from_candid_Result_3_n17(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async saveCustomExercise(arg0: bigint | null, arg1: Exercise): Promise<Result_6> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.saveCustomExercise(to_candid_opt_n21(this._uploadFile, this._downloadFile, arg0), to_candid_Exercise_n1(this._uploadFile, this._downloadFile, arg1));
+                return from_candid_Result_6_n114(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.saveCustomExercise(to_candid_opt_n21(this._uploadFile, this._downloadFile, arg0), to_candid_Exercise_n1(this._uploadFile, this._downloadFile, arg1));
+            return from_candid_Result_6_n114(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async saveGym(arg0: bigint | null, arg1: string, arg2: Array<string>): Promise<Result_5> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.saveGym(to_candid_opt_n21(this._uploadFile, this._downloadFile, arg0), arg1, arg2);
+                return from_candid_Result_5_n116(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.saveGym(to_candid_opt_n21(this._uploadFile, this._downloadFile, arg0), arg1, arg2);
+            return from_candid_Result_5_n116(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async saveSetConfiguration(arg0: string, arg1: SetConfiguration): Promise<Result_3> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.saveSetConfiguration(arg0, arg1);
+                return from_candid_Result_3_n17(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.saveSetConfiguration(arg0, arg1);
+            return from_candid_Result_3_n17(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async saveWorkout(arg0: WorkoutInput): Promise<Result> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.saveWorkout(to_candid_WorkoutInput_n118(this._uploadFile, this._downloadFile, arg0));
+                return from_candid_Result_n123(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.saveWorkout(to_candid_WorkoutInput_n118(this._uploadFile, this._downloadFile, arg0));
+            return from_candid_Result_n123(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async saveWorkoutTemplate(arg0: bigint | null, arg1: string, arg2: Array<TemplateExercise>): Promise<Result_4> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.saveWorkoutTemplate(to_candid_opt_n21(this._uploadFile, this._downloadFile, arg0), arg1, to_candid_vec_n125(this._uploadFile, this._downloadFile, arg2));
+                return from_candid_Result_4_n128(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.saveWorkoutTemplate(to_candid_opt_n21(this._uploadFile, this._downloadFile, arg0), arg1, to_candid_vec_n125(this._uploadFile, this._downloadFile, arg2));
+            return from_candid_Result_4_n128(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async setDefaultGym(arg0: bigint): Promise<Result_3> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setDefaultGym(arg0);
+                return from_candid_Result_3_n17(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setDefaultGym(arg0);
+            return from_candid_Result_3_n17(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async setExercisePinned(arg0: string, arg1: boolean): Promise<Result_3> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setExercisePinned(arg0, arg1);
+                return from_candid_Result_3_n17(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setExercisePinned(arg0, arg1);
+            return from_candid_Result_3_n17(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async setLibraryExerciseDeprecated(arg0: bigint, arg1: boolean): Promise<Result_3> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.setLibraryExerciseDeprecated(arg0, arg1);
+                return from_candid_Result_3_n17(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.setLibraryExerciseDeprecated(arg0, arg1);
+            return from_candid_Result_3_n17(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async startProgram(arg0: bigint): Promise<Result_2> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.startProgram(arg0);
+                return from_candid_Result_2_n130(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.startProgram(arg0);
+            return from_candid_Result_2_n130(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async updateLibraryExercise(arg0: bigint, arg1: Exercise): Promise<Result_1> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateLibraryExercise(arg0, to_candid_Exercise_n1(this._uploadFile, this._downloadFile, arg1));
+                return from_candid_Result_1_n5(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateLibraryExercise(arg0, to_candid_Exercise_n1(this._uploadFile, this._downloadFile, arg1));
+            return from_candid_Result_1_n5(this._uploadFile, this._downloadFile, result);
+        }
+    }
+    async updateWorkout(arg0: bigint, arg1: WorkoutInput): Promise<Result> {
+        if (this.processError) {
+            try {
+                const result = await this.actor.updateWorkout(arg0, to_candid_WorkoutInput_n118(this._uploadFile, this._downloadFile, arg1));
+                return from_candid_Result_n123(this._uploadFile, this._downloadFile, result);
+            } catch (e) {
+                this.processError(e);
+                throw new Error("unreachable");
+            }
+        } else {
+            const result = await this.actor.updateWorkout(arg0, to_candid_WorkoutInput_n118(this._uploadFile, this._downloadFile, arg1));
+            return from_candid_Result_n123(this._uploadFile, this._downloadFile, result);
+        }
+    }
+}
+function from_candid_AlternativeExercise_n33(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _AlternativeExercise): AlternativeExercise {
+    return from_candid_record_n34(_uploadFile, _downloadFile, value);
+}
+function from_candid_AppError_n13(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _AppError): AppError {
+    return from_candid_variant_n14(_uploadFile, _downloadFile, value);
+}
+function from_candid_CustomExercise_n53(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _CustomExercise): CustomExercise {
+    return from_candid_record_n54(_uploadFile, _downloadFile, value);
+}
+function from_candid_Exercise_n9(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Exercise): Exercise {
+    return from_candid_record_n10(_uploadFile, _downloadFile, value);
+}
+function from_candid_Gender_n44(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Gender): Gender {
+    return from_candid_variant_n45(_uploadFile, _downloadFile, value);
+}
+function from_candid_GymSettings_n60(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _GymSettings): GymSettings {
+    return from_candid_record_n61(_uploadFile, _downloadFile, value);
+}
+function from_candid_LibraryExercise_n7(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _LibraryExercise): LibraryExercise {
+    return from_candid_record_n8(_uploadFile, _downloadFile, value);
+}
+function from_candid_MovementPattern_n11(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _MovementPattern): MovementPattern {
+    return from_candid_variant_n12(_uploadFile, _downloadFile, value);
+}
+function from_candid_PlannedSession_n85(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _PlannedSession): PlannedSession {
+    return from_candid_variant_n86(_uploadFile, _downloadFile, value);
+}
+function from_candid_Result_10_n80(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Result_10): Result_10 {
+    return from_candid_variant_n81(_uploadFile, _downloadFile, value);
+}
+function from_candid_Result_11_n78(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Result_11): Result_11 {
+    return from_candid_variant_n79(_uploadFile, _downloadFile, value);
+}
+function from_candid_Result_12_n35(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Result_12): Result_12 {
+    return from_candid_variant_n36(_uploadFile, _downloadFile, value);
+}
+function from_candid_Result_13_n76(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Result_13): Result_13 {
+    return from_candid_variant_n77(_uploadFile, _downloadFile, value);
+}
+function from_candid_Result_14_n74(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Result_14): Result_14 {
+    return from_candid_variant_n75(_uploadFile, _downloadFile, value);
+}
+function from_candid_Result_15_n71(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Result_15): Result_15 {
+    return from_candid_variant_n72(_uploadFile, _downloadFile, value);
+}
+function from_candid_Result_16_n69(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Result_16): Result_16 {
+    return from_candid_variant_n70(_uploadFile, _downloadFile, value);
+}
+function from_candid_Result_17_n65(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Result_17): Result_17 {
+    return from_candid_variant_n66(_uploadFile, _downloadFile, value);
+}
+function from_candid_Result_18_n63(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Result_18): Result_18 {
+    return from_candid_variant_n64(_uploadFile, _downloadFile, value);
+}
+function from_candid_Result_19_n58(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Result_19): Result_19 {
+    return from_candid_variant_n59(_uploadFile, _downloadFile, value);
+}
+function from_candid_Result_1_n5(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Result_1): Result_1 {
+    return from_candid_variant_n6(_uploadFile, _downloadFile, value);
+}
+function from_candid_Result_20_n55(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Result_20): Result_20 {
+    return from_candid_variant_n56(_uploadFile, _downloadFile, value);
+}
+function from_candid_Result_21_n50(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Result_21): Result_21 {
+    return from_candid_variant_n51(_uploadFile, _downloadFile, value);
+}
+function from_candid_Result_22_n30(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Result_22): Result_22 {
+    return from_candid_variant_n31(_uploadFile, _downloadFile, value);
+}
+function from_candid_Result_23_n22(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Result_23): Result_23 {
+    return from_candid_variant_n23(_uploadFile, _downloadFile, value);
+}
+function from_candid_Result_24_n19(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Result_24): Result_24 {
+    return from_candid_variant_n20(_uploadFile, _downloadFile, value);
+}
+function from_candid_Result_2_n130(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Result_2): Result_2 {
+    return from_candid_variant_n131(_uploadFile, _downloadFile, value);
+}
+function from_candid_Result_3_n17(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Result_3): Result_3 {
+    return from_candid_variant_n18(_uploadFile, _downloadFile, value);
+}
+function from_candid_Result_4_n128(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Result_4): Result_4 {
+    return from_candid_variant_n129(_uploadFile, _downloadFile, value);
+}
+function from_candid_Result_5_n116(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Result_5): Result_5 {
+    return from_candid_variant_n117(_uploadFile, _downloadFile, value);
+}
+function from_candid_Result_6_n114(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Result_6): Result_6 {
+    return from_candid_variant_n115(_uploadFile, _downloadFile, value);
+}
+function from_candid_Result_7_n102(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Result_7): Result_7 {
+    return from_candid_variant_n103(_uploadFile, _downloadFile, value);
+}
+function from_candid_Result_8_n93(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Result_8): Result_8 {
+    return from_candid_variant_n94(_uploadFile, _downloadFile, value);
+}
+function from_candid_Result_9_n87(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Result_9): Result_9 {
+    return from_candid_variant_n88(_uploadFile, _downloadFile, value);
+}
+function from_candid_Result_n123(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Result): Result {
+    return from_candid_variant_n124(_uploadFile, _downloadFile, value);
+}
+function from_candid_TemplateExercise_n99(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _TemplateExercise): TemplateExercise {
+    return from_candid_record_n100(_uploadFile, _downloadFile, value);
+}
+function from_candid_TrainingFrequency_n40(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _TrainingFrequency): TrainingFrequency {
+    return from_candid_variant_n41(_uploadFile, _downloadFile, value);
+}
+function from_candid_TrainingGoal_n46(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _TrainingGoal): TrainingGoal {
+    return from_candid_variant_n47(_uploadFile, _downloadFile, value);
+}
+function from_candid_UserProfile_n38(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _UserProfile): UserProfile {
+    return from_candid_record_n39(_uploadFile, _downloadFile, value);
+}
+function from_candid_UserRole_n48(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _UserRole): UserRole {
+    return from_candid_variant_n49(_uploadFile, _downloadFile, value);
+}
+function from_candid_WeeklyPlan_n82(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _WeeklyPlan): WeeklyPlan {
+    return from_candid_record_n83(_uploadFile, _downloadFile, value);
+}
+function from_candid_WeightUnit_n42(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _WeightUnit): WeightUnit {
+    return from_candid_variant_n43(_uploadFile, _downloadFile, value);
+}
+function from_candid_WorkoutExercise_n27(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _WorkoutExercise): WorkoutExercise {
+    return from_candid_record_n28(_uploadFile, _downloadFile, value);
+}
+function from_candid_WorkoutTemplate_n96(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _WorkoutTemplate): WorkoutTemplate {
+    return from_candid_record_n97(_uploadFile, _downloadFile, value);
+}
+function from_candid_WorkoutWithNote_n24(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _WorkoutWithNote): WorkoutWithNote {
+    return from_candid_record_n25(_uploadFile, _downloadFile, value);
+}
+function from_candid_Workout_n90(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Workout): Workout {
+    return from_candid_record_n91(_uploadFile, _downloadFile, value);
+}
+function from_candid_opt_n37(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_UserProfile]): UserProfile | null {
+    return value.length === 0 ? null : from_candid_UserProfile_n38(_uploadFile, _downloadFile, value[0]);
+}
+function from_candid_opt_n62(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [bigint]): bigint | null {
+    return value.length === 0 ? null : value[0];
+}
+function from_candid_opt_n73(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_ProgramProgress]): ProgramProgress | null {
+    return value.length === 0 ? null : value[0];
+}
+function from_candid_opt_n92(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [string]): string | null {
+    return value.length === 0 ? null : value[0];
+}
+function from_candid_record_n10(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    primaryMuscleGroup: string;
+    movementPattern: _MovementPattern;
+    recoveryTime: bigint;
+    name: string;
+    secondaryMuscleGroups: Array<string>;
+    equipmentType: string;
+    compound: boolean;
+    demoUrl: string;
+}): {
+    primaryMuscleGroup: string;
+    movementPattern: MovementPattern;
+    recoveryTime: bigint;
+    name: string;
+    secondaryMuscleGroups: Array<string>;
+    equipmentType: string;
+    compound: boolean;
+    demoUrl: string;
+} {
+    return {
+        primaryMuscleGroup: value.primaryMuscleGroup,
+        movementPattern: from_candid_MovementPattern_n11(_uploadFile, _downloadFile, value.movementPattern),
+        recoveryTime: value.recoveryTime,
+        name: value.name,
+        secondaryMuscleGroups: value.secondaryMuscleGroups,
+        equipmentType: value.equipmentType,
+        compound: value.compound,
+        demoUrl: value.demoUrl
+    };
+}
+function from_candid_record_n100(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    reps: bigint;
+    sets: bigint;
+    exercise: _Exercise;
+    targetWeight: number;
+}): {
+    reps: bigint;
+    sets: bigint;
+    exercise: Exercise;
+    targetWeight: number;
+} {
+    return {
+        reps: value.reps,
+        sets: value.sets,
+        exercise: from_candid_Exercise_n9(_uploadFile, _downloadFile, value.exercise),
+        targetWeight: value.targetWeight
+    };
+}
+function from_candid_record_n25(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    totalVolume: number;
+    note: string;
+    exercises: Array<_WorkoutExercise>;
+    timestamp: bigint;
+}): {
+    totalVolume: number;
+    note: string;
+    exercises: Array<WorkoutExercise>;
+    timestamp: bigint;
+} {
+    return {
+        totalVolume: value.totalVolume,
+        note: value.note,
+        exercises: from_candid_vec_n26(_uploadFile, _downloadFile, value.exercises),
+        timestamp: value.timestamp
+    };
+}
+function from_candid_record_n28(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    setData: Array<_SetData>;
+    suggestedWeight: number;
+    reps: bigint;
+    sets: bigint;
+    exercise: _Exercise;
+}): {
+    setData: Array<SetData>;
+    suggestedWeight: number;
+    reps: bigint;
+    sets: bigint;
+    exercise: Exercise;
+} {
+    return {
+        setData: value.setData,
+        suggestedWeight: value.suggestedWeight,
+        reps: value.reps,
+        sets: value.sets,
+        exercise: from_candid_Exercise_n9(_uploadFile, _downloadFile, value.exercise)
+    };
+}
+function from_candid_record_n34(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    suggestedWeight: number;
+    reps: bigint;
+    exercise: _Exercise;
+    reason: string;
+}): {
+    suggestedWeight: number;
+    reps: bigint;
+    exercise: Exercise;
+    reason: string;
+} {
+    return {
+        suggestedWeight: value.suggestedWeight,
+        reps: value.reps,
+        exercise: from_candid_Exercise_n9(_uploadFile, _downloadFile, value.exercise),
+        reason: value.reason
+    };
+}
+function from_candid_record_n39(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    bodyweight: number;
+    muscleGroupRestInterval: bigint;
+    trainingFrequency: _TrainingFrequency;
+    weightUnit: _WeightUnit;
+    darkMode: boolean;
+    gender: _Gender;
+    trainingGoal: _TrainingGoal;
+    availableEquipment: Array<string>;
+    restTime: bigint;
+}): {
+    bodyweight: number;
+    muscleGroupRestInterval: bigint;
+    trainingFrequency: TrainingFrequency;
+    weightUnit: WeightUnit;
+    darkMode: boolean;
+    gender: Gender;
+    trainingGoal: TrainingGoal;
+    availableEquipment: Array<string>;
+    restTime: bigint;
+} {
+    return {
+        bodyweight: value.bodyweight,
+        muscleGroupRestInterval: value.muscleGroupRestInterval,
+        trainingFrequency: from_candid_TrainingFrequency_n40(_uploadFile, _downloadFile, value.trainingFrequency),
+        weightUnit: from_candid_WeightUnit_n42(_uploadFile, _downloadFile, value.weightUnit),
+        darkMode: value.darkMode,
+        gender: from_candid_Gender_n44(_uploadFile, _downloadFile, value.gender),
+        trainingGoal: from_candid_TrainingGoal_n46(_uploadFile, _downloadFile, value.trainingGoal),
+        availableEquipment: value.availableEquipment,
+        restTime: value.restTime
+    };
+}
+function from_candid_record_n54(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: bigint;
+    exercise: _Exercise;
+}): {
+    id: bigint;
+    exercise: Exercise;
+} {
+    return {
+        id: value.id,
+        exercise: from_candid_Exercise_n9(_uploadFile, _downloadFile, value.exercise)
+    };
+}
+function from_candid_record_n61(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    gyms: Array<_Gym>;
+    defaultGymId: [] | [bigint];
+}): {
+    gyms: Array<Gym>;
+    defaultGymId?: bigint;
+} {
+    return {
+        gyms: value.gyms,
+        defaultGymId: record_opt_to_undefined(from_candid_opt_n62(_uploadFile, _downloadFile, value.defaultGymId))
+    };
+}
+function from_candid_record_n8(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: bigint;
+    exercise: _Exercise;
+    deprecated: boolean;
+}): {
+    id: bigint;
+    exercise: Exercise;
+    deprecated: boolean;
+} {
+    return {
+        id: value.id,
+        exercise: from_candid_Exercise_n9(_uploadFile, _downloadFile, value.exercise),
+        deprecated: value.deprecated
+    };
+}
+function from_candid_record_n83(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    completedSessions: bigint;
+    startedAt: bigint;
+    sessions: Array<_PlannedSession>;
+    frequency: _TrainingFrequency;
+}): {
+    completedSessions: bigint;
+    startedAt: bigint;
+    sessions: Array<PlannedSession>;
+    frequency: TrainingFrequency;
+} {
+    return {
+        completedSessions: value.completedSessions,
+        startedAt: value.startedAt,
+        sessions: from_candid_vec_n84(_uploadFile, _downloadFile, value.sessions),
+        frequency: from_candid_TrainingFrequency_n40(_uploadFile, _downloadFile, value.frequency)
+    };
+}
+function from_candid_record_n91(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: bigint;
+    clientId: [] | [string];
+    totalVolume: number;
+    exercises: Array<_WorkoutExercise>;
+    gymId: [] | [bigint];
+    timestamp: bigint;
+}): {
+    id: bigint;
+    clientId?: string;
+    totalVolume: number;
+    exercises: Array<WorkoutExercise>;
+    gymId?: bigint;
+    timestamp: bigint;
+} {
+    return {
+        id: value.id,
+        clientId: record_opt_to_undefined(from_candid_opt_n92(_uploadFile, _downloadFile, value.clientId)),
+        totalVolume: value.totalVolume,
+        exercises: from_candid_vec_n26(_uploadFile, _downloadFile, value.exercises),
+        gymId: record_opt_to_undefined(from_candid_opt_n62(_uploadFile, _downloadFile, value.gymId)),
+        timestamp: value.timestamp
+    };
+}
+function from_candid_record_n97(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    id: bigint;
+    name: string;
+    exercises: Array<_TemplateExercise>;
+    updatedAt: bigint;
+}): {
+    id: bigint;
+    name: string;
+    exercises: Array<TemplateExercise>;
+    updatedAt: bigint;
+} {
+    return {
+        id: value.id,
+        name: value.name,
+        exercises: from_candid_vec_n98(_uploadFile, _downloadFile, value.exercises),
+        updatedAt: value.updatedAt
+    };
+}
+function from_candid_variant_n103(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: _LibraryImportSummary;
+} | {
+    err: _AppError;
+}): {
+    __kind__: "ok";
+    ok: LibraryImportSummary;
+} | {
+    __kind__: "err";
+    err: AppError;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: value.ok
+    } : "err" in value ? {
+        __kind__: "err",
+        err: from_candid_AppError_n13(_uploadFile, _downloadFile, value.err)
+    } : value;
+}
+function from_candid_variant_n115(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: _CustomExercise;
+} | {
+    err: _AppError;
+}): {
+    __kind__: "ok";
+    ok: CustomExercise;
+} | {
+    __kind__: "err";
+    err: AppError;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: from_candid_CustomExercise_n53(_uploadFile, _downloadFile, value.ok)
+    } : "err" in value ? {
+        __kind__: "err",
+        err: from_candid_AppError_n13(_uploadFile, _downloadFile, value.err)
+    } : value;
+}
+function from_candid_variant_n117(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: _Gym;
+} | {
+    err: _AppError;
+}): {
+    __kind__: "ok";
+    ok: Gym;
+} | {
+    __kind__: "err";
+    err: AppError;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: value.ok
+    } : "err" in value ? {
+        __kind__: "err",
+        err: from_candid_AppError_n13(_uploadFile, _downloadFile, value.err)
+    } : value;
 }
-function from_candid_AppError_n5(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _AppError): AppError {
-    return from_candid_variant_n6(_uploadFile, _downloadFile, value);
-}
-function from_candid_Gender_n16(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Gender): Gender {
-    return from_candid_variant_n17(_uploadFile, _downloadFile, value);
-}
-function from_candid_Result_1_n7(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Result_1): Result_1 {
-    return from_candid_variant_n8(_uploadFile, _downloadFile, value);
-}
-function from_candid_Result_2_n22(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Result_2): Result_2 {
-    return from_candid_variant_n23(_uploadFile, _downloadFile, value);
-}
-function from_candid_Result_3_n20(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Result_3): Result_3 {
-    return from_candid_variant_n21(_uploadFile, _downloadFile, value);
+function from_candid_variant_n12(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    calfRaise: null;
+} | {
+    verticalPull: null;
+} | {
+    verticalPush: null;
+} | {
+    hinge: null;
+} | {
+    horizontalPull: null;
+} | {
+    horizontalPush: null;
+} | {
+    elbowExtension: null;
+} | {
+    hipExtension: null;
+} | {
+    carry: null;
+} | {
+    kneeFlexion: null;
+} | {
+    shoulderExtension: null;
+} | {
+    trunkRotation: null;
+} | {
+    antiExtension: null;
+} | {
+    lunge: null;
+} | {
+    squat: null;
+} | {
+    rearDeltFly: null;
+} | {
+    shoulderRaise: null;
+} | {
+    trunkFlexion: null;
+} | {
+    kneeExtension: null;
+} | {
+    antiRotation: null;
+} | {
+    chestFly: null;
+} | {
+    elbowFlexion: null;
+}): MovementPattern {
+    return "calfRaise" in value ? MovementPattern.calfRaise : "verticalPull" in value ? MovementPattern.verticalPull : "verticalPush" in value ? MovementPattern.verticalPush : "hinge" in value ? MovementPattern.hinge : "horizontalPull" in value ? MovementPattern.horizontalPull : "horizontalPush" in value ? MovementPattern.horizontalPush : "elbowExtension" in value ? MovementPattern.elbowExtension : "hipExtension" in value ? MovementPattern.hipExtension : "carry" in value ? MovementPattern.carry : "kneeFlexion" in value ? MovementPattern.kneeFlexion : "shoulderExtension" in value ? MovementPattern.shoulderExtension : "trunkRotation" in value ? MovementPattern.trunkRotation : "antiExtension" in value ? MovementPattern.antiExtension : "lunge" in value ? MovementPattern.lunge : "squat" in value ? MovementPattern.squat : "rearDeltFly" in value ? MovementPattern.rearDeltFly : "shoulderRaise" in value ? MovementPattern.shoulderRaise : "trunkFlexion" in value ? MovementPattern.trunkFlexion : "kneeExtension" in value ? MovementPattern.kneeExtension : "antiRotation" in value ? MovementPattern.antiRotation : "chestFly" in value ? MovementPattern.chestFly : "elbowFlexion" in value ? MovementPattern.elbowFlexion : value;
+}
+function from_candid_variant_n124(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: _Workout;
+} | {
+    err: _AppError;
+}): {
+    __kind__: "ok";
+    ok: Workout;
+} | {
+    __kind__: "err";
+    err: AppError;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: from_candid_Workout_n90(_uploadFile, _downloadFile, value.ok)
+    } : "err" in value ? {
+        __kind__: "err",
+        err: from_candid_AppError_n13(_uploadFile, _downloadFile, value.err)
+    } : value;
 }
-function from_candid_Result_4_n3(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Result_4): Result_4 {
-    return from_candid_variant_n4(_uploadFile, _downloadFile, value);
+function from_candid_variant_n129(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: _WorkoutTemplate;
+} | {
+    err: _AppError;
+}): {
+    __kind__: "ok";
+    ok: WorkoutTemplate;
+} | {
+    __kind__: "err";
+    err: AppError;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: from_candid_WorkoutTemplate_n96(_uploadFile, _downloadFile, value.ok)
+    } : "err" in value ? {
+        __kind__: "err",
+        err: from_candid_AppError_n13(_uploadFile, _downloadFile, value.err)
+    } : value;
 }
-function from_candid_Result_n32(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _Result): Result {
-    return from_candid_variant_n33(_uploadFile, _downloadFile, value);
+function from_candid_variant_n131(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: _Program;
+} | {
+    err: _AppError;
+}): {
+    __kind__: "ok";
+    ok: Program;
+} | {
+    __kind__: "err";
+    err: AppError;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: value.ok
+    } : "err" in value ? {
+        __kind__: "err",
+        err: from_candid_AppError_n13(_uploadFile, _downloadFile, value.err)
+    } : value;
 }
-function from_candid_TrainingFrequency_n12(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _TrainingFrequency): TrainingFrequency {
-    return from_candid_variant_n13(_uploadFile, _downloadFile, value);
+function from_candid_variant_n14(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    userNotFound: string;
+} | {
+    userProfileNotFound: string;
+} | {
+    adminOnly: string;
+} | {
+    internalError: string;
+} | {
+    badArguments: string;
+} | {
+    optimizationFailed: string;
+} | {
+    unauthorized: string;
+}): {
+    __kind__: "userNotFound";
+    userNotFound: string;
+} | {
+    __kind__: "userProfileNotFound";
+    userProfileNotFound: string;
+} | {
+    __kind__: "adminOnly";
+    adminOnly: string;
+} | {
+    __kind__: "internalError";
+    internalError: string;
+} | {
+    __kind__: "badArguments";
+    badArguments: string;
+} | {
+    __kind__: "optimizationFailed";
+    optimizationFailed: string;
+} | {
+    __kind__: "unauthorized";
+    unauthorized: string;
+} {
+    return "userNotFound" in value ? {
+        __kind__: "userNotFound",
+        userNotFound: value.userNotFound
+    } : "userProfileNotFound" in value ? {
+        __kind__: "userProfileNotFound",
+        userProfileNotFound: value.userProfileNotFound
+    } : "adminOnly" in value ? {
+        __kind__: "adminOnly",
+        adminOnly: value.adminOnly
+    } : "internalError" in value ? {
+        __kind__: "internalError",
+        internalError: value.internalError
+    } : "badArguments" in value ? {
+        __kind__: "badArguments",
+        badArguments: value.badArguments
+    } : "optimizationFailed" in value ? {
+        __kind__: "optimizationFailed",
+        optimizationFailed: value.optimizationFailed
+    } : "unauthorized" in value ? {
+        __kind__: "unauthorized",
+        unauthorized: value.unauthorized
+    } : value;
 }
-function from_candid_UserProfile_n10(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _UserProfile): UserProfile {
-    return from_candid_record_n11(_uploadFile, _downloadFile, value);
+function from_candid_variant_n18(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: null;
+} | {
+    err: _AppError;
+}): {
+    __kind__: "ok";
+    ok: null;
+} | {
+    __kind__: "err";
+    err: AppError;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: value.ok
+    } : "err" in value ? {
+        __kind__: "err",
+        err: from_candid_AppError_n13(_uploadFile, _downloadFile, value.err)
+    } : value;
 }
-function from_candid_UserRole_n18(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _UserRole): UserRole {
-    return from_candid_variant_n19(_uploadFile, _downloadFile, value);
+function from_candid_variant_n20(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: Array<[string, bigint]>;
+} | {
+    err: _AppError;
+}): {
+    __kind__: "ok";
+    ok: Array<[string, bigint]>;
+} | {
+    __kind__: "err";
+    err: AppError;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: value.ok
+    } : "err" in value ? {
+        __kind__: "err",
+        err: from_candid_AppError_n13(_uploadFile, _downloadFile, value.err)
+    } : value;
 }
-function from_candid_WeightUnit_n14(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: _WeightUnit): WeightUnit {
-    return from_candid_variant_n15(_uploadFile, _downloadFile, value);
+function from_candid_variant_n23(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: _WorkoutWithNote;
+} | {
+    err: _AppError;
+}): {
+    __kind__: "ok";
+    ok: WorkoutWithNote;
+} | {
+    __kind__: "err";
+    err: AppError;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: from_candid_WorkoutWithNote_n24(_uploadFile, _downloadFile, value.ok)
+    } : "err" in value ? {
+        __kind__: "err",
+        err: from_candid_AppError_n13(_uploadFile, _downloadFile, value.err)
+    } : value;
 }
-function from_candid_opt_n9(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: [] | [_UserProfile]): UserProfile | null {
-    return value.length === 0 ? null : from_candid_UserProfile_n10(_uploadFile, _downloadFile, value[0]);
+function from_candid_variant_n31(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: Array<_AlternativeExercise>;
+} | {
+    err: _AppError;
+}): {
+    __kind__: "ok";
+    ok: Array<AlternativeExercise>;
+} | {
+    __kind__: "err";
+    err: AppError;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: from_candid_vec_n32(_uploadFile, _downloadFile, value.ok)
+    } : "err" in value ? {
+        __kind__: "err",
+        err: from_candid_AppError_n13(_uploadFile, _downloadFile, value.err)
+    } : value;
 }
-function from_candid_record_n11(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
-    bodyweight: number;
-    muscleGroupRestInterval: bigint;
-    trainingFrequency: _TrainingFrequency;
-    weightUnit: _WeightUnit;
-    darkMode: boolean;
-    gender: _Gender;
-    restTime: bigint;
+function from_candid_variant_n36(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: [] | [_UserProfile];
+} | {
+    err: _AppError;
 }): {
-    bodyweight: number;
-    muscleGroupRestInterval: bigint;
-    trainingFrequency: TrainingFrequency;
-    weightUnit: WeightUnit;
-    darkMode: boolean;
-    gender: Gender;
-    restTime: bigint;
+    __kind__: "ok";
+    ok: UserProfile | null;
+} | {
+    __kind__: "err";
+    err: AppError;
 } {
-    return {
-        bodyweight: value.bodyweight,
-        muscleGroupRestInterval: value.muscleGroupRestInterval,
-        trainingFrequency: from_candid_TrainingFrequency_n12(_uploadFile, _downloadFile, value.trainingFrequency),
-        weightUnit: from_candid_WeightUnit_n14(_uploadFile, _downloadFile, value.weightUnit),
-        darkMode: value.darkMode,
-        gender: from_candid_Gender_n16(_uploadFile, _downloadFile, value.gender),
-        restTime: value.restTime
-    };
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: from_candid_opt_n37(_uploadFile, _downloadFile, value.ok)
+    } : "err" in value ? {
+        __kind__: "err",
+        err: from_candid_AppError_n13(_uploadFile, _downloadFile, value.err)
+    } : value;
 }
-function from_candid_variant_n13(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+function from_candid_variant_n41(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     threeDays: null;
 } | {
     fiveDays: null;
@@ -494,38 +1975,163 @@ function from_candid_variant_n13(_uploadFile: (file: ExternalBlob) => Promise<Ui
 }): TrainingFrequency {
     return "threeDays" in value ? TrainingFrequency.threeDays : "fiveDays" in value ? TrainingFrequency.fiveDays : "fourDays" in value ? TrainingFrequency.fourDays : value;
 }
-function from_candid_variant_n15(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+function from_candid_variant_n43(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     kg: null;
 } | {
     lb: null;
 }): WeightUnit {
     return "kg" in value ? WeightUnit.kg : "lb" in value ? WeightUnit.lb : value;
 }
-function from_candid_variant_n17(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
-    other: null;
+function from_candid_variant_n45(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    other: null;
+} | {
+    female: null;
+} | {
+    male: null;
+}): Gender {
+    return "other" in value ? Gender.other : "female" in value ? Gender.female : "male" in value ? Gender.male : value;
+}
+function from_candid_variant_n47(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    generalFitness: null;
+} | {
+    strength: null;
+} | {
+    endurance: null;
+} | {
+    hypertrophy: null;
+}): TrainingGoal {
+    return "generalFitness" in value ? TrainingGoal.generalFitness : "strength" in value ? TrainingGoal.strength : "endurance" in value ? TrainingGoal.endurance : "hypertrophy" in value ? TrainingGoal.hypertrophy : value;
+}
+function from_candid_variant_n49(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    admin: null;
+} | {
+    user: null;
+} | {
+    guest: null;
+}): UserRole {
+    return "admin" in value ? UserRole.admin : "user" in value ? UserRole.user : "guest" in value ? UserRole.guest : value;
+}
+function from_candid_variant_n51(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: Array<_CustomExercise>;
+} | {
+    err: _AppError;
+}): {
+    __kind__: "ok";
+    ok: Array<CustomExercise>;
+} | {
+    __kind__: "err";
+    err: AppError;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: from_candid_vec_n52(_uploadFile, _downloadFile, value.ok)
+    } : "err" in value ? {
+        __kind__: "err",
+        err: from_candid_AppError_n13(_uploadFile, _downloadFile, value.err)
+    } : value;
+}
+function from_candid_variant_n56(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: Array<_LibraryExercise>;
+} | {
+    err: _AppError;
+}): {
+    __kind__: "ok";
+    ok: Array<LibraryExercise>;
+} | {
+    __kind__: "err";
+    err: AppError;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: from_candid_vec_n57(_uploadFile, _downloadFile, value.ok)
+    } : "err" in value ? {
+        __kind__: "err",
+        err: from_candid_AppError_n13(_uploadFile, _downloadFile, value.err)
+    } : value;
+}
+function from_candid_variant_n59(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: _GymSettings;
+} | {
+    err: _AppError;
+}): {
+    __kind__: "ok";
+    ok: GymSettings;
+} | {
+    __kind__: "err";
+    err: AppError;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: from_candid_GymSettings_n60(_uploadFile, _downloadFile, value.ok)
+    } : "err" in value ? {
+        __kind__: "err",
+        err: from_candid_AppError_n13(_uploadFile, _downloadFile, value.err)
+    } : value;
+}
+function from_candid_variant_n6(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: _LibraryExercise;
+} | {
+    err: _AppError;
+}): {
+    __kind__: "ok";
+    ok: LibraryExercise;
+} | {
+    __kind__: "err";
+    err: AppError;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: from_candid_LibraryExercise_n7(_uploadFile, _downloadFile, value.ok)
+    } : "err" in value ? {
+        __kind__: "err",
+        err: from_candid_AppError_n13(_uploadFile, _downloadFile, value.err)
+    } : value;
+}
+function from_candid_variant_n64(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: _LegSubgroupRecovery;
 } | {
-    female: null;
+    err: _AppError;
+}): {
+    __kind__: "ok";
+    ok: LegSubgroupRecovery;
 } | {
-    male: null;
-}): Gender {
-    return "other" in value ? Gender.other : "female" in value ? Gender.female : "male" in value ? Gender.male : value;
+    __kind__: "err";
+    err: AppError;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: value.ok
+    } : "err" in value ? {
+        __kind__: "err",
+        err: from_candid_AppError_n13(_uploadFile, _downloadFile, value.err)
+    } : value;
 }
-function from_candid_variant_n19(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
-    admin: null;
+function from_candid_variant_n66(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: Array<_LibraryCoverage>;
 } | {
-    user: null;
+    err: _AppError;
+}): {
+    __kind__: "ok";
+    ok: Array<LibraryCoverage>;
 } | {
-    guest: null;
-}): UserRole {
-    return "admin" in value ? UserRole.admin : "user" in value ? UserRole.user : "guest" in value ? UserRole.guest : value;
+    __kind__: "err";
+    err: AppError;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: value.ok
+    } : "err" in value ? {
+        __kind__: "err",
+        err: from_candid_AppError_n13(_uploadFile, _downloadFile, value.err)
+    } : value;
 }
-function from_candid_variant_n21(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
-    ok: _LegSubgroupRecovery;
+function from_candid_variant_n70(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: Array<_MuscleGroupVolume>;
 } | {
     err: _AppError;
 }): {
     __kind__: "ok";
-    ok: LegSubgroupRecovery;
+    ok: Array<MuscleGroupVolume>;
 } | {
     __kind__: "err";
     err: AppError;
@@ -535,10 +2141,29 @@ function from_candid_variant_n21(_uploadFile: (file: ExternalBlob) => Promise<Ui
         ok: value.ok
     } : "err" in value ? {
         __kind__: "err",
-        err: from_candid_AppError_n5(_uploadFile, _downloadFile, value.err)
+        err: from_candid_AppError_n13(_uploadFile, _downloadFile, value.err)
     } : value;
 }
-function from_candid_variant_n23(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+function from_candid_variant_n72(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: [] | [_ProgramProgress];
+} | {
+    err: _AppError;
+}): {
+    __kind__: "ok";
+    ok: ProgramProgress | null;
+} | {
+    __kind__: "err";
+    err: AppError;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: from_candid_opt_n73(_uploadFile, _downloadFile, value.ok)
+    } : "err" in value ? {
+        __kind__: "err",
+        err: from_candid_AppError_n13(_uploadFile, _downloadFile, value.err)
+    } : value;
+}
+function from_candid_variant_n75(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     ok: _RecoveryStateWithLegs;
 } | {
     err: _AppError;
@@ -554,16 +2179,16 @@ function from_candid_variant_n23(_uploadFile: (file: ExternalBlob) => Promise<Ui
         ok: value.ok
     } : "err" in value ? {
         __kind__: "err",
-        err: from_candid_AppError_n5(_uploadFile, _downloadFile, value.err)
+        err: from_candid_AppError_n13(_uploadFile, _downloadFile, value.err)
     } : value;
 }
-function from_candid_variant_n33(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
-    ok: null;
+function from_candid_variant_n77(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: Array<[string, _SetConfiguration]>;
 } | {
     err: _AppError;
 }): {
     __kind__: "ok";
-    ok: null;
+    ok: Array<[string, SetConfiguration]>;
 } | {
     __kind__: "err";
     err: AppError;
@@ -573,16 +2198,16 @@ function from_candid_variant_n33(_uploadFile: (file: ExternalBlob) => Promise<Ui
         ok: value.ok
     } : "err" in value ? {
         __kind__: "err",
-        err: from_candid_AppError_n5(_uploadFile, _downloadFile, value.err)
+        err: from_candid_AppError_n13(_uploadFile, _downloadFile, value.err)
     } : value;
 }
-function from_candid_variant_n4(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
-    ok: _WorkoutWithNote;
+function from_candid_variant_n79(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: _VarietySettings;
 } | {
     err: _AppError;
 }): {
     __kind__: "ok";
-    ok: WorkoutWithNote;
+    ok: VarietySettings;
 } | {
     __kind__: "err";
     err: AppError;
@@ -592,109 +2217,154 @@ function from_candid_variant_n4(_uploadFile: (file: ExternalBlob) => Promise<Uin
         ok: value.ok
     } : "err" in value ? {
         __kind__: "err",
-        err: from_candid_AppError_n5(_uploadFile, _downloadFile, value.err)
+        err: from_candid_AppError_n13(_uploadFile, _downloadFile, value.err)
     } : value;
 }
-function from_candid_variant_n6(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
-    userNotFound: string;
-} | {
-    userProfileNotFound: string;
-} | {
-    adminOnly: string;
-} | {
-    internalError: string;
-} | {
-    badArguments: string;
-} | {
-    optimizationFailed: string;
+function from_candid_variant_n81(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: _WeeklyPlan;
 } | {
-    unauthorized: string;
+    err: _AppError;
 }): {
-    __kind__: "userNotFound";
-    userNotFound: string;
+    __kind__: "ok";
+    ok: WeeklyPlan;
 } | {
-    __kind__: "userProfileNotFound";
-    userProfileNotFound: string;
+    __kind__: "err";
+    err: AppError;
+} {
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: from_candid_WeeklyPlan_n82(_uploadFile, _downloadFile, value.ok)
+    } : "err" in value ? {
+        __kind__: "err",
+        err: from_candid_AppError_n13(_uploadFile, _downloadFile, value.err)
+    } : value;
+}
+function from_candid_variant_n86(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    pull: null;
 } | {
-    __kind__: "adminOnly";
-    adminOnly: string;
+    push: null;
 } | {
-    __kind__: "internalError";
-    internalError: string;
+    lowerBody: null;
 } | {
-    __kind__: "badArguments";
-    badArguments: string;
+    fullBody: null;
 } | {
-    __kind__: "optimizationFailed";
-    optimizationFailed: string;
+    upperBody: null;
+}): PlannedSession {
+    return "pull" in value ? PlannedSession.pull : "push" in value ? PlannedSession.push : "lowerBody" in value ? PlannedSession.lowerBody : "fullBody" in value ? PlannedSession.fullBody : "upperBody" in value ? PlannedSession.upperBody : value;
+}
+function from_candid_variant_n88(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: Array<_Workout>;
 } | {
-    __kind__: "unauthorized";
-    unauthorized: string;
+    err: _AppError;
+}): {
+    __kind__: "ok";
+    ok: Array<Workout>;
+} | {
+    __kind__: "err";
+    err: AppError;
 } {
-    return "userNotFound" in value ? {
-        __kind__: "userNotFound",
-        userNotFound: value.userNotFound
-    } : "userProfileNotFound" in value ? {
-        __kind__: "userProfileNotFound",
-        userProfileNotFound: value.userProfileNotFound
-    } : "adminOnly" in value ? {
-        __kind__: "adminOnly",
-        adminOnly: value.adminOnly
-    } : "internalError" in value ? {
-        __kind__: "internalError",
-        internalError: value.internalError
-    } : "badArguments" in value ? {
-        __kind__: "badArguments",
-        badArguments: value.badArguments
-    } : "optimizationFailed" in value ? {
-        __kind__: "optimizationFailed",
-        optimizationFailed: value.optimizationFailed
-    } : "unauthorized" in value ? {
-        __kind__: "unauthorized",
-        unauthorized: value.unauthorized
+    return "ok" in value ? {
+        __kind__: "ok",
+        ok: from_candid_vec_n89(_uploadFile, _downloadFile, value.ok)
+    } : "err" in value ? {
+        __kind__: "err",
+        err: from_candid_AppError_n13(_uploadFile, _downloadFile, value.err)
     } : value;
 }
-function from_candid_variant_n8(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
-    ok: [] | [_UserProfile];
+function from_candid_variant_n94(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    ok: Array<_WorkoutTemplate>;
 } | {
     err: _AppError;
 }): {
     __kind__: "ok";
-    ok: UserProfile | null;
+    ok: Array<WorkoutTemplate>;
 } | {
     __kind__: "err";
     err: AppError;
 } {
     return "ok" in value ? {
         __kind__: "ok",
-        ok: from_candid_opt_n9(_uploadFile, _downloadFile, value.ok)
+        ok: from_candid_vec_n95(_uploadFile, _downloadFile, value.ok)
     } : "err" in value ? {
         __kind__: "err",
-        err: from_candid_AppError_n5(_uploadFile, _downloadFile, value.err)
+        err: from_candid_AppError_n13(_uploadFile, _downloadFile, value.err)
     } : value;
 }
-function to_candid_Gender_n30(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Gender): _Gender {
-    return to_candid_variant_n31(_uploadFile, _downloadFile, value);
+function from_candid_vec_n26(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_WorkoutExercise>): Array<WorkoutExercise> {
+    return value.map((x)=>from_candid_WorkoutExercise_n27(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n32(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_AlternativeExercise>): Array<AlternativeExercise> {
+    return value.map((x)=>from_candid_AlternativeExercise_n33(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n52(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_CustomExercise>): Array<CustomExercise> {
+    return value.map((x)=>from_candid_CustomExercise_n53(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n57(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_LibraryExercise>): Array<LibraryExercise> {
+    return value.map((x)=>from_candid_LibraryExercise_n7(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n84(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_PlannedSession>): Array<PlannedSession> {
+    return value.map((x)=>from_candid_PlannedSession_n85(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n89(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_Workout>): Array<Workout> {
+    return value.map((x)=>from_candid_Workout_n90(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n95(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_WorkoutTemplate>): Array<WorkoutTemplate> {
+    return value.map((x)=>from_candid_WorkoutTemplate_n96(_uploadFile, _downloadFile, x));
+}
+function from_candid_vec_n98(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<_TemplateExercise>): Array<TemplateExercise> {
+    return value.map((x)=>from_candid_TemplateExercise_n99(_uploadFile, _downloadFile, x));
+}
+function to_candid_Exercise_n1(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Exercise): _Exercise {
+    return to_candid_record_n2(_uploadFile, _downloadFile, value);
+}
+function to_candid_Gender_n110(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Gender): _Gender {
+    return to_candid_variant_n111(_uploadFile, _downloadFile, value);
+}
+function to_candid_MovementPattern_n3(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: MovementPattern): _MovementPattern {
+    return to_candid_variant_n4(_uploadFile, _downloadFile, value);
+}
+function to_candid_TemplateExercise_n126(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: TemplateExercise): _TemplateExercise {
+    return to_candid_record_n127(_uploadFile, _downloadFile, value);
+}
+function to_candid_TrainingFrequency_n106(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: TrainingFrequency): _TrainingFrequency {
+    return to_candid_variant_n107(_uploadFile, _downloadFile, value);
+}
+function to_candid_TrainingGoal_n112(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: TrainingGoal): _TrainingGoal {
+    return to_candid_variant_n113(_uploadFile, _downloadFile, value);
+}
+function to_candid_UserProfile_n104(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserProfile): _UserProfile {
+    return to_candid_record_n105(_uploadFile, _downloadFile, value);
+}
+function to_candid_UserRole_n15(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserRole): _UserRole {
+    return to_candid_variant_n16(_uploadFile, _downloadFile, value);
 }
-function to_candid_TrainingFrequency_n26(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: TrainingFrequency): _TrainingFrequency {
-    return to_candid_variant_n27(_uploadFile, _downloadFile, value);
+function to_candid_VolumeBucket_n67(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: VolumeBucket): _VolumeBucket {
+    return to_candid_variant_n68(_uploadFile, _downloadFile, value);
 }
-function to_candid_UserProfile_n24(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserProfile): _UserProfile {
-    return to_candid_record_n25(_uploadFile, _downloadFile, value);
+function to_candid_WeightUnit_n108(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: WeightUnit): _WeightUnit {
+    return to_candid_variant_n109(_uploadFile, _downloadFile, value);
 }
-function to_candid_UserRole_n1(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserRole): _UserRole {
-    return to_candid_variant_n2(_uploadFile, _downloadFile, value);
+function to_candid_WorkoutExercise_n121(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: WorkoutExercise): _WorkoutExercise {
+    return to_candid_record_n122(_uploadFile, _downloadFile, value);
 }
-function to_candid_WeightUnit_n28(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: WeightUnit): _WeightUnit {
-    return to_candid_variant_n29(_uploadFile, _downloadFile, value);
+function to_candid_WorkoutInput_n118(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: WorkoutInput): _WorkoutInput {
+    return to_candid_record_n119(_uploadFile, _downloadFile, value);
 }
-function to_candid_record_n25(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+function to_candid_opt_n21(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: bigint | null): [] | [bigint] {
+    return value === null ? candid_none() : candid_some(value);
+}
+function to_candid_opt_n29(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: string | null): [] | [string] {
+    return value === null ? candid_none() : candid_some(value);
+}
+function to_candid_record_n105(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
     bodyweight: number;
     muscleGroupRestInterval: bigint;
     trainingFrequency: TrainingFrequency;
     weightUnit: WeightUnit;
     darkMode: boolean;
     gender: Gender;
+    trainingGoal: TrainingGoal;
+    availableEquipment: Array<string>;
     restTime: bigint;
 }): {
     bodyweight: number;
@@ -703,34 +2373,113 @@ function to_candid_record_n25(_uploadFile: (file: ExternalBlob) => Promise<Uint8
     weightUnit: _WeightUnit;
     darkMode: boolean;
     gender: _Gender;
+    trainingGoal: _TrainingGoal;
+    availableEquipment: Array<string>;
     restTime: bigint;
 } {
     return {
         bodyweight: value.bodyweight,
         muscleGroupRestInterval: value.muscleGroupRestInterval,
-        trainingFrequency: to_candid_TrainingFrequency_n26(_uploadFile, _downloadFile, value.trainingFrequency),
-        weightUnit: to_candid_WeightUnit_n28(_uploadFile, _downloadFile, value.weightUnit),
+        trainingFrequency: to_candid_TrainingFrequency_n106(_uploadFile, _downloadFile, value.trainingFrequency),
+        weightUnit: to_candid_WeightUnit_n108(_uploadFile, _downloadFile, value.weightUnit),
         darkMode: value.darkMode,
-        gender: to_candid_Gender_n30(_uploadFile, _downloadFile, value.gender),
+        gender: to_candid_Gender_n110(_uploadFile, _downloadFile, value.gender),
+        trainingGoal: to_candid_TrainingGoal_n112(_uploadFile, _downloadFile, value.trainingGoal),
+        availableEquipment: value.availableEquipment,
         restTime: value.restTime
     };
 }
-function to_candid_variant_n2(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserRole): {
-    admin: null;
-} | {
-    user: null;
-} | {
-    guest: null;
+function to_candid_record_n119(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    clientId: string;
+    totalVolume: number;
+    exercises: Array<WorkoutExercise>;
+    gymId?: bigint;
+    timestamp: bigint;
+}): {
+    clientId: string;
+    totalVolume: number;
+    exercises: Array<_WorkoutExercise>;
+    gymId: [] | [bigint];
+    timestamp: bigint;
 } {
-    return value == UserRole.admin ? {
-        admin: null
-    } : value == UserRole.user ? {
-        user: null
-    } : value == UserRole.guest ? {
-        guest: null
-    } : value;
+    return {
+        clientId: value.clientId,
+        totalVolume: value.totalVolume,
+        exercises: to_candid_vec_n120(_uploadFile, _downloadFile, value.exercises),
+        gymId: value.gymId ? candid_some(value.gymId) : candid_none(),
+        timestamp: value.timestamp
+    };
+}
+function to_candid_record_n122(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    setData: Array<SetData>;
+    suggestedWeight: number;
+    reps: bigint;
+    sets: bigint;
+    exercise: Exercise;
+}): {
+    setData: Array<_SetData>;
+    suggestedWeight: number;
+    reps: bigint;
+    sets: bigint;
+    exercise: _Exercise;
+} {
+    return {
+        setData: value.setData,
+        suggestedWeight: value.suggestedWeight,
+        reps: value.reps,
+        sets: value.sets,
+        exercise: to_candid_Exercise_n1(_uploadFile, _downloadFile, value.exercise)
+    };
+}
+function to_candid_record_n127(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    reps: bigint;
+    sets: bigint;
+    exercise: Exercise;
+    targetWeight: number;
+}): {
+    reps: bigint;
+    sets: bigint;
+    exercise: _Exercise;
+    targetWeight: number;
+} {
+    return {
+        reps: value.reps,
+        sets: value.sets,
+        exercise: to_candid_Exercise_n1(_uploadFile, _downloadFile, value.exercise),
+        targetWeight: value.targetWeight
+    };
+}
+function to_candid_record_n2(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: {
+    primaryMuscleGroup: string;
+    movementPattern: MovementPattern;
+    recoveryTime: bigint;
+    name: string;
+    secondaryMuscleGroups: Array<string>;
+    equipmentType: string;
+    compound: boolean;
+    demoUrl: string;
+}): {
+    primaryMuscleGroup: string;
+    movementPattern: _MovementPattern;
+    recoveryTime: bigint;
+    name: string;
+    secondaryMuscleGroups: Array<string>;
+    equipmentType: string;
+    compound: boolean;
+    demoUrl: string;
+} {
+    return {
+        primaryMuscleGroup: value.primaryMuscleGroup,
+        movementPattern: to_candid_MovementPattern_n3(_uploadFile, _downloadFile, value.movementPattern),
+        recoveryTime: value.recoveryTime,
+        name: value.name,
+        secondaryMuscleGroups: value.secondaryMuscleGroups,
+        equipmentType: value.equipmentType,
+        compound: value.compound,
+        demoUrl: value.demoUrl
+    };
 }
-function to_candid_variant_n27(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: TrainingFrequency): {
+function to_candid_variant_n107(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: TrainingFrequency): {
     threeDays: null;
 } | {
     fiveDays: null;
@@ -745,7 +2494,7 @@ function to_candid_variant_n27(_uploadFile: (file: ExternalBlob) => Promise<Uint
         fourDays: null
     } : value;
 }
-function to_candid_variant_n29(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: WeightUnit): {
+function to_candid_variant_n109(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: WeightUnit): {
     kg: null;
 } | {
     lb: null;
@@ -756,7 +2505,7 @@ function to_candid_variant_n29(_uploadFile: (file: ExternalBlob) => Promise<Uint
         lb: null
     } : value;
 }
-function to_candid_variant_n31(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Gender): {
+function to_candid_variant_n111(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Gender): {
     other: null;
 } | {
     female: null;
@@ -771,6 +2520,155 @@ function to_candid_variant_n31(_uploadFile: (file: ExternalBlob) => Promise<Uint
         male: null
     } : value;
 }
+function to_candid_variant_n113(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: TrainingGoal): {
+    generalFitness: null;
+} | {
+    strength: null;
+} | {
+    endurance: null;
+} | {
+    hypertrophy: null;
+} {
+    return value == TrainingGoal.generalFitness ? {
+        generalFitness: null
+    } : value == TrainingGoal.strength ? {
+        strength: null
+    } : value == TrainingGoal.endurance ? {
+        endurance: null
+    } : value == TrainingGoal.hypertrophy ? {
+        hypertrophy: null
+    } : value;
+}
+function to_candid_variant_n16(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: UserRole): {
+    admin: null;
+} | {
+    user: null;
+} | {
+    guest: null;
+} {
+    return value == UserRole.admin ? {
+        admin: null
+    } : value == UserRole.user ? {
+        user: null
+    } : value == UserRole.guest ? {
+        guest: null
+    } : value;
+}
+function to_candid_variant_n4(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: MovementPattern): {
+    calfRaise: null;
+} | {
+    verticalPull: null;
+} | {
+    verticalPush: null;
+} | {
+    hinge: null;
+} | {
+    horizontalPull: null;
+} | {
+    horizontalPush: null;
+} | {
+    elbowExtension: null;
+} | {
+    hipExtension: null;
+} | {
+    carry: null;
+} | {
+    kneeFlexion: null;
+} | {
+    shoulderExtension: null;
+} | {
+    trunkRotation: null;
+} | {
+    antiExtension: null;
+} | {
+    lunge: null;
+} | {
+    squat: null;
+} | {
+    rearDeltFly: null;
+} | {
+    shoulderRaise: null;
+} | {
+    trunkFlexion: null;
+} | {
+    kneeExtension: null;
+} | {
+    antiRotation: null;
+} | {
+    chestFly: null;
+} | {
+    elbowFlexion: null;
+} {
+    return value == MovementPattern.calfRaise ? {
+        calfRaise: null
+    } : value == MovementPattern.verticalPull ? {
+        verticalPull: null
+    } : value == MovementPattern.verticalPush ? {
+        verticalPush: null
+    } : value == MovementPattern.hinge ? {
+        hinge: null
+    } : value == MovementPattern.horizontalPull ? {
+        horizontalPull: null
+    } : value == MovementPattern.horizontalPush ? {
+        horizontalPush: null
+    } : value == MovementPattern.elbowExtension ? {
+        elbowExtension: null
+    } : value == MovementPattern.hipExtension ? {
+        hipExtension: null
+    } : value == MovementPattern.carry ? {
+        carry: null
+    } : value == MovementPattern.kneeFlexion ? {
+        kneeFlexion: null
+    } : value == MovementPattern.shoulderExtension ? {
+        shoulderExtension: null
+    } : value == MovementPattern.trunkRotation ? {
+        trunkRotation: null
+    } : value == MovementPattern.antiExtension ? {
+        antiExtension: null
+    } : value == MovementPattern.lunge ? {
+        lunge: null
+    } : value == MovementPattern.squat ? {
+        squat: null
+    } : value == MovementPattern.rearDeltFly ? {
+        rearDeltFly: null
+    } : value == MovementPattern.shoulderRaise ? {
+        shoulderRaise: null
+    } : value == MovementPattern.trunkFlexion ? {
+        trunkFlexion: null
+    } : value == MovementPattern.kneeExtension ? {
+        kneeExtension: null
+    } : value == MovementPattern.antiRotation ? {
+        antiRotation: null
+    } : value == MovementPattern.chestFly ? {
+        chestFly: null
+    } : value == MovementPattern.elbowFlexion ? {
+        elbowFlexion: null
+    } : value;
+}
+function to_candid_variant_n68(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: VolumeBucket): {
+    day: null;
+} | {
+    month: null;
+} | {
+    week: null;
+} {
+    return value == VolumeBucket.day ? {
+        day: null
+    } : value == VolumeBucket.month ? {
+        month: null
+    } : value == VolumeBucket.week ? {
+        week: null
+    } : value;
+}
+function to_candid_vec_n101(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<Exercise>): Array<_Exercise> {
+    return value.map((x)=>to_candid_Exercise_n1(_uploadFile, _downloadFile, x));
+}
+function to_candid_vec_n120(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<WorkoutExercise>): Array<_WorkoutExercise> {
+    return value.map((x)=>to_candid_WorkoutExercise_n121(_uploadFile, _downloadFile, x));
+}
+function to_candid_vec_n125(_uploadFile: (file: ExternalBlob) => Promise<Uint8Array>, _downloadFile: (file: Uint8Array) => Promise<ExternalBlob>, value: Array<TemplateExercise>): Array<_TemplateExercise> {
+    return value.map((x)=>to_candid_TemplateExercise_n126(_uploadFile, _downloadFile, x));
+}
 export interface CreateActorOptions {
     agent?: Agent;
     agentOptions?: HttpAgentOptions;
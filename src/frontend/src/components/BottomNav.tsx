@@ -9,9 +9,10 @@ interface BottomNavProps {
   currentPage: Page;
   onNavigate: (page: Page) => void;
   userProfile: UserProfile;
+  onOpenAdmin?: () => void;
 }
 
-export default function BottomNav({ currentPage, onNavigate, userProfile }: BottomNavProps) {
+export default function BottomNav({ currentPage, onNavigate, userProfile, onOpenAdmin }: BottomNavProps) {
   const [showSettings, setShowSettings] = useState(false);
 
   const handleVibrate = () => {
@@ -72,6 +73,7 @@ export default function BottomNav({ currentPage, onNavigate, userProfile }: Bott
         open={showSettings}
         onOpenChange={setShowSettings}
         userProfile={userProfile}
+        onOpenAdmin={onOpenAdmin}
       />
     </>
   );
@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { useGetCustomExercises, useSaveCustomExercise, useDeleteCustomExercise } from '../hooks/useQueries';
+import { Exercise } from '../types';
+import { EMPTY_EXERCISE, MOVEMENT_PATTERN_LABELS } from '../lib/exercises';
+import ExerciseForm from './ExerciseForm';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+
+interface ExerciseDraft {
+  id?: number;
+  exercise: Exercise;
+}
+
+export default function CustomExerciseManager() {
+  const { data: customExercises = [] } = useGetCustomExercises();
+  const saveExercise = useSaveCustomExercise();
+  const deleteExercise = useDeleteCustomExercise();
+  const [draft, setDraft] = useState<ExerciseDraft | null>(null);
+
+  const handleSave = async (exercise: Exercise) => {
+    await saveExercise.mutateAsync({ id: draft?.id, exercise });
+    setDraft(null);
+  };
+
+  if (draft) {
+    return (
+      <ExerciseForm
+        initial={draft.exercise}
+        submitLabel="Save Exercise"
+        isSaving={saveExercise.isPending}
+        onSubmit={handleSave}
+        onCancel={() => setDraft(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {customExercises.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          Add exercises missing from the library. They are used in generated workouts and alternatives.
+        </p>
+      )}
+      {customExercises.map(({ id, exercise }) => (
+        <div key={id} className="flex items-center gap-2 rounded-lg border border-border px-3 py-2">
+          <div className="flex-1 min-w-0">
+            <span className="block truncate font-medium">{exercise.name}</span>
+            <div className="mt-1 flex flex-wrap gap-1">
+              <Badge variant="secondary" className="text-xs">{exercise.primaryMuscleGroup}</Badge>
+              <Badge variant="outline" className="text-xs">{exercise.equipmentType}</Badge>
+              <Badge variant="outline" className="text-xs">{MOVEMENT_PATTERN_LABELS[exercise.movementPattern]}</Badge>
+            </div>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            title="Edit exercise"
+            onClick={() => setDraft({ id, exercise })}
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 text-destructive"
+            title="Delete exercise"
+            disabled={deleteExercise.isPending}
+            onClick={() => deleteExercise.mutate(id)}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button variant="outline" className="w-full" onClick={() => setDraft({ exercise: EMPTY_EXERCISE })}>
+        <Plus className="mr-2 h-4 w-4" />
+        Add Exercise
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { EQUIPMENT_TYPES } from '../lib/equipment';
+
+interface EquipmentPickerProps {
+  id: string;
+  /** Empty means a full gym */
+  value: string[];
+  onChange: (equipment: string[]) => void;
+}
+
+const OWNABLE_EQUIPMENT = EQUIPMENT_TYPES.filter((type) => type !== 'Bodyweight');
+
+export default function EquipmentPicker({ id, value, onChange }: EquipmentPickerProps) {
+  const fullGym = value.length === 0;
+
+  const toggle = (equipment: string) => {
+    const next = value.includes(equipment)
+      ? value.filter((e) => e !== equipment)
+      : [...value, equipment];
+    // Deselecting everything leaves bodyweight only, which is stored explicitly
+    // so it isn't mistaken for the full-gym default.
+    onChange(next.length === 0 ? ['Bodyweight'] : next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label htmlFor={id} className="cursor-pointer text-sm text-muted-foreground">
+          Full gym access
+        </Label>
+        <Switch
+          id={id}
+          checked={fullGym}
+          onCheckedChange={(checked) => onChange(checked ? [] : ['Dumbbell', 'Bodyweight'])}
+        />
+      </div>
+      {!fullGym && (
+        <>
+          <div className="flex flex-wrap gap-2">
+            {OWNABLE_EQUIPMENT.map((equipment) => (
+              <Button
+                key={equipment}
+                type="button"
+                size="sm"
+                variant={value.includes(equipment) ? 'default' : 'outline'}
+                className="h-8 rounded-full px-3"
+                onClick={() => toggle(equipment)}
+              >
+                {equipment}
+              </Button>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground">Bodyweight exercises are always included.</p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState } from 'react';
-import { Exercise } from '../types';
-import { useGetAlternativeExercises, useRecordExerciseChange } from '../hooks/useQueries';
+import { Exercise, ExercisePrescription } from '../types';
+import { useGetAlternativeExercises, useRecordExerciseChange, useGetGymSettings } from '../hooks/useQueries';
 import {
   Dialog,
   DialogContent,
@@ -13,12 +13,19 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
 import { Loader2, ExternalLink } from 'lucide-react';
 import { toast } from 'sonner';
+import { usableEquipment, resolveGymEquipment } from '../lib/equipment';
 
 interface ExerciseChangeModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   currentExercise: Exercise;
-  onExerciseSelected: (exercise: Exercise) => void;
+  onExerciseSelected: (exercise: Exercise, prescription: ExercisePrescription) => void;
+  /** Other exercises already in the workout, kept out of the suggestions */
+  excludeNames?: string[];
+  /** The profile's equipment inventory, used when the user has no gyms */
+  availableEquipment?: string[];
+  /** Gym the workout is done at; alternatives are limited to its equipment */
+  gymId?: number;
 }
 
 export default function ExerciseChangeModal({
@@ -26,12 +33,24 @@ export default function ExerciseChangeModal({
   onOpenChange,
   currentExercise,
   onExerciseSelected,
+  excludeNames = [],
+  availableEquipment = [],
+  gymId,
 }: ExerciseChangeModalProps) {
   const [selectedExercise, setSelectedExercise] = useState<Exercise | null>(null);
-  const { data: alternatives = [], isLoading } = useGetAlternativeExercises(currentExercise.primaryMuscleGroup);
+  const [equipmentFilter, setEquipmentFilter] = useState<string | null>(null);
+  const { data: alternatives = [], isLoading } = useGetAlternativeExercises(
+    currentExercise.primaryMuscleGroup,
+    currentExercise.name,
+    excludeNames,
+    equipmentFilter,
+    gymId
+  );
+  const { data: gymSettings } = useGetGymSettings();
+  const equipmentChips = usableEquipment(resolveGymEquipment(gymSettings, gymId, availableEquipment));
   const recordChange = useRecordExerciseChange();
 
-  const handleSelect = async (exercise: Exercise) => {
+  const handleSelect = async (exercise: Exercise, prescription: ExercisePrescription) => {
     if (exercise.name === currentExercise.name) {
       toast.info('This is the current exercise');
       return;
@@ -47,7 +66,7 @@ export default function ExerciseChangeModal({
       });
 
       // Notify parent component
-      onExerciseSelected(exercise);
+      onExerciseSelected(exercise, prescription);
       toast.success(`Changed to ${exercise.name}`);
       onOpenChange(false);
     } catch (error) {
@@ -60,7 +79,7 @@ export default function ExerciseChangeModal({
 
   // Filter out the current exercise from alternatives
   const filteredAlternatives = Array.isArray(alternatives) 
-    ? alternatives.filter(ex => ex.name !== currentExercise.name)
+    ? alternatives.filter(alt => alt.exercise.name !== currentExercise.name)
     : [];
 
   return (
@@ -76,6 +95,19 @@ export default function ExerciseChangeModal({
               {filteredAlternatives.length} alternative{filteredAlternatives.length !== 1 ? 's' : ''} available for {currentExercise.primaryMuscleGroup}
             </p>
           )}
+          <div className="flex flex-wrap gap-2 pt-3">
+            {[null, ...equipmentChips].map((equipment) => (
+              <Button
+                key={equipment ?? 'all'}
+                size="sm"
+                variant={equipmentFilter === equipment ? 'default' : 'outline'}
+                className="h-7 rounded-full px-3 text-xs"
+                onClick={() => setEquipmentFilter(equipment)}
+              >
+                {equipment ?? 'All'}
+              </Button>
+            ))}
+          </div>
         </DialogHeader>
 
         {isLoading ? (
@@ -87,29 +119,35 @@ export default function ExerciseChangeModal({
             <div className="space-y-2 pr-2">
               {filteredAlternatives.length === 0 ? (
                 <p className="text-center text-muted-foreground py-8">
-                  No alternative exercises available
+                  {equipmentFilter
+                    ? `No ${equipmentFilter.toLowerCase()} alternatives available`
+                    : 'No alternative exercises available'}
                 </p>
               ) : (
-                filteredAlternatives.map((exercise) => (
+                filteredAlternatives.map(({ exercise, reason, suggestedWeight, reps }) => (
                   <Button
                     key={exercise.name}
                     variant="outline"
                     className="w-full justify-start h-auto py-3 px-4 text-left hover:bg-white/10 hover:border-primary/50 transition-all hover:shadow-glow-primary active:scale-95 rounded-2xl"
-                    onClick={() => handleSelect(exercise)}
+                    onClick={() => handleSelect(exercise, { suggestedWeight, reps })}
                     disabled={recordChange.isPending && selectedExercise?.name === exercise.name}
                   >
                     <div className="flex items-start gap-3 flex-1">
-                      <a
-                        href={exercise.demoUrl}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="shrink-0 tap-target"
-                        onClick={(e) => e.stopPropagation()}
-                      >
-                        <div className="w-10 h-10 rounded-lg bg-muted flex items-center justify-center hover:bg-muted/80 transition-all">
-                          <ExternalLink className="h-4 w-4 text-muted-foreground" />
-                        </div>
-                      </a>
+                      {exercise.demoUrl ? (
+                        <a
+                          href={exercise.demoUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="shrink-0 tap-target"
+                          onClick={(e) => e.stopPropagation()}
+                        >
+                          <div className="w-10 h-10 rounded-lg bg-muted flex items-center justify-center hover:bg-muted/80 transition-all">
+                            <ExternalLink className="h-4 w-4 text-muted-foreground" />
+                          </div>
+                        </a>
+                      ) : (
+                        <div className="w-10 h-10 shrink-0" />
+                      )}
                       <div className="flex-1 space-y-1.5">
                         <div className="flex items-center justify-between gap-2">
                           <span className="font-medium text-base">{exercise.name}</span>
@@ -125,6 +163,7 @@ export default function ExerciseChangeModal({
                             {exercise.equipmentType}
                           </Badge>
                         </div>
+                        <p className="text-xs text-muted-foreground whitespace-normal">{reason}</p>
                       </div>
                     </div>
                   </Button>
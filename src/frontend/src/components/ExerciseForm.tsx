@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import { Exercise } from '../types';
+import { MovementPattern } from '../backend';
+import { EQUIPMENT_TYPES } from '../lib/equipment';
+import { EXERCISE_MUSCLE_GROUPS, MOVEMENT_PATTERN_LABELS, MIN_RECOVERY_HOURS, MAX_RECOVERY_HOURS } from '../lib/exercises';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+
+interface ExerciseFormProps {
+  initial: Exercise;
+  submitLabel: string;
+  isSaving: boolean;
+  onSubmit: (exercise: Exercise) => void;
+  onCancel: () => void;
+}
+
+export default function ExerciseForm({ initial, submitLabel, isSaving, onSubmit, onCancel }: ExerciseFormProps) {
+  const [exercise, setExercise] = useState<Exercise>(initial);
+
+  const update = (changes: Partial<Exercise>) => {
+    setExercise((prev) => ({ ...prev, ...changes }));
+  };
+
+  const toggleSecondary = (group: string) => {
+    const current = exercise.secondaryMuscleGroups;
+    update({
+      secondaryMuscleGroups: current.includes(group)
+        ? current.filter((g) => g !== group)
+        : [...current, group],
+    });
+  };
+
+  const handleSubmit = () => {
+    if (!exercise.name.trim()) return;
+    onSubmit({ ...exercise, name: exercise.name.trim(), demoUrl: exercise.demoUrl.trim() });
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border p-3">
+      <Input
+        value={exercise.name}
+        onChange={(e) => update({ name: e.target.value })}
+        placeholder="Exercise name, e.g. Hack Squat"
+        maxLength={60}
+        className="h-11 rounded-lg bg-input border-border"
+      />
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Primary muscle</Label>
+          <Select
+            value={exercise.primaryMuscleGroup}
+            onValueChange={(value) =>
+              update({
+                primaryMuscleGroup: value,
+                secondaryMuscleGroups: exercise.secondaryMuscleGroups.filter((g) => g !== value),
+              })
+            }
+          >
+            <SelectTrigger className="h-11 rounded-lg bg-input border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="rounded-lg">
+              {EXERCISE_MUSCLE_GROUPS.map((group) => (
+                <SelectItem key={group} value={group}>
+                  {group}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Equipment</Label>
+          <Select value={exercise.equipmentType} onValueChange={(value) => update({ equipmentType: value })}>
+            <SelectTrigger className="h-11 rounded-lg bg-input border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="rounded-lg">
+              {EQUIPMENT_TYPES.map((equipment) => (
+                <SelectItem key={equipment} value={equipment}>
+                  {equipment}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label className="text-xs text-muted-foreground">Movement pattern</Label>
+          <Select
+            value={exercise.movementPattern}
+            onValueChange={(value) => update({ movementPattern: value as MovementPattern })}
+          >
+            <SelectTrigger className="h-11 rounded-lg bg-input border-border">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="rounded-lg">
+              {Object.entries(MOVEMENT_PATTERN_LABELS).map(([pattern, label]) => (
+                <SelectItem key={pattern} value={pattern}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-end justify-between gap-2 pb-3">
+          <Label htmlFor="exercise-form-compound" className="cursor-pointer text-sm text-muted-foreground">
+            Compound lift
+          </Label>
+          <Switch
+            id="exercise-form-compound"
+            checked={exercise.compound}
+            onCheckedChange={(compound) => update({ compound })}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs text-muted-foreground">Also works</Label>
+        <div className="flex flex-wrap gap-2">
+          {EXERCISE_MUSCLE_GROUPS.filter((group) => group !== exercise.primaryMuscleGroup).map((group) => (
+            <Button
+              key={group}
+              type="button"
+              size="sm"
+              variant={exercise.secondaryMuscleGroups.includes(group) ? 'default' : 'outline'}
+              className="h-8 rounded-full px-3"
+              onClick={() => toggleSecondary(group)}
+            >
+              {group}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="exercise-form-recovery" className="text-xs text-muted-foreground">
+            Recovery (hours)
+          </Label>
+          <Input
+            id="exercise-form-recovery"
+            type="number"
+            min={MIN_RECOVERY_HOURS}
+            max={MAX_RECOVERY_HOURS}
+            value={exercise.recoveryTime}
+            onChange={(e) => update({ recoveryTime: Number(e.target.value) })}
+            className="h-11 rounded-lg bg-input border-border"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="exercise-form-demo" className="text-xs text-muted-foreground">
+            Demo link (optional)
+          </Label>
+          <Input
+            id="exercise-form-demo"
+            type="url"
+            value={exercise.demoUrl}
+            onChange={(e) => update({ demoUrl: e.target.value })}
+            placeholder="https://"
+            className="h-11 rounded-lg bg-input border-border"
+          />
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <Button variant="outline" className="flex-1" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button className="flex-1" disabled={!exercise.name.trim() || isSaving} onClick={handleSubmit}>
+          {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import { useGetFailedOutboxWrites, useRetryOutboxWrite, useDiscardOutboxWrite } from '../hooks/useQueries';
+import type { OutboxEntry } from '../lib/outbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { AlertTriangle, Loader2, RotateCw, Trash2 } from 'lucide-react';
+
+// Workout timestamps are nanoseconds, matching Time.now() on the canister
+function formatLoggedAt(timestamp: bigint): string {
+  return new Date(Number(timestamp / 1_000_000n)).toLocaleString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * Workouts the canister rejected while syncing. They stay on the device until
+ * the user retries or discards them.
+ */
+export default function FailedWorkoutsCard() {
+  const { data: failed = [] } = useGetFailedOutboxWrites();
+  const retry = useRetryOutboxWrite();
+  const discard = useDiscardOutboxWrite();
+  const [pendingDiscard, setPendingDiscard] = useState<OutboxEntry | null>(null);
+
+  const workouts = failed.flatMap((entry) => (entry.write.kind === 'saveWorkout' ? [{ entry, workout: entry.write.workout }] : []));
+  if (workouts.length === 0) return null;
+
+  const handleDiscard = async () => {
+    if (!pendingDiscard) return;
+    await discard.mutateAsync(pendingDiscard.id);
+    setPendingDiscard(null);
+  };
+
+  return (
+    <Card className="border-destructive/50 shadow-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-destructive" />
+          Not Saved
+        </CardTitle>
+        <CardDescription>These workouts were rejected when syncing. Retry or discard them.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {workouts.map(({ entry, workout }) => (
+          <div key={entry.id} className="flex items-center justify-between gap-3 rounded-lg border border-border/50 bg-muted/30 p-3">
+            <div className="min-w-0">
+              <p className="text-sm font-semibold">
+                {workout.exercises.length} Exercises · {formatLoggedAt(workout.timestamp)}
+              </p>
+              {entry.lastError && <p className="truncate text-xs text-muted-foreground">{entry.lastError}</p>}
+            </div>
+            <div className="flex shrink-0 items-center gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                title="Retry"
+                disabled={retry.isPending}
+                onClick={() => retry.mutate(entry.id)}
+              >
+                {retry.isPending && retry.variables === entry.id ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <RotateCw className="h-4 w-4" />
+                )}
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-destructive"
+                title="Discard"
+                onClick={() => setPendingDiscard(entry)}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+
+      <AlertDialog open={pendingDiscard !== null} onOpenChange={(open) => !open && setPendingDiscard(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Discard this workout?</AlertDialogTitle>
+            <AlertDialogDescription>
+              It was never saved to your history, so it will be lost. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              disabled={discard.isPending}
+              onClick={(e) => {
+                e.preventDefault();
+                handleDiscard();
+              }}
+            >
+              Discard
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import { useGetGymSettings, useSaveGym, useDeleteGym, useSetDefaultGym } from '../hooks/useQueries';
+import EquipmentPicker from './EquipmentPicker';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, Pencil, Plus, Star, Trash2 } from 'lucide-react';
+
+interface GymDraft {
+  id?: number;
+  name: string;
+  equipment: string[];
+}
+
+export default function GymManager() {
+  const { data: gymSettings } = useGetGymSettings();
+  const saveGym = useSaveGym();
+  const deleteGym = useDeleteGym();
+  const setDefaultGym = useSetDefaultGym();
+  const [draft, setDraft] = useState<GymDraft | null>(null);
+
+  const gyms = gymSettings?.gyms ?? [];
+  const defaultId = gymSettings?.defaultGymId;
+
+  const handleSave = async () => {
+    if (!draft || !draft.name.trim()) return;
+    await saveGym.mutateAsync({ ...draft, name: draft.name.trim() });
+    setDraft(null);
+  };
+
+  if (draft) {
+    return (
+      <div className="space-y-3 rounded-lg border border-border p-3">
+        <Input
+          value={draft.name}
+          onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+          placeholder="Gym name"
+          maxLength={40}
+          className="h-11 rounded-lg bg-input border-border"
+        />
+        <EquipmentPicker
+          id="gym-full-gym"
+          value={draft.equipment}
+          onChange={(equipment) => setDraft({ ...draft, equipment })}
+        />
+        <div className="flex gap-2">
+          <Button variant="outline" className="flex-1" onClick={() => setDraft(null)}>
+            Cancel
+          </Button>
+          <Button className="flex-1" disabled={!draft.name.trim() || saveGym.isPending} onClick={handleSave}>
+            {saveGym.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Save Gym'}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {gyms.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          Add the places you train to switch equipment before each workout.
+        </p>
+      )}
+      {gyms.map((gym) => {
+        const id = Number(gym.id);
+        const isDefault = defaultId !== undefined && gym.id === defaultId;
+        return (
+          <div key={id} className="flex items-center gap-2 rounded-lg border border-border px-3 py-2">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="truncate font-medium">{gym.name}</span>
+                {isDefault && <Badge variant="secondary">Default</Badge>}
+              </div>
+              <p className="truncate text-xs text-muted-foreground">
+                {gym.equipment.length === 0 ? 'Full gym' : gym.equipment.join(', ')}
+              </p>
+            </div>
+            {!isDefault && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                title="Make default"
+                disabled={setDefaultGym.isPending}
+                onClick={() => setDefaultGym.mutate(id)}
+              >
+                <Star className="h-4 w-4" />
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              title="Edit gym"
+              onClick={() => setDraft({ id, name: gym.name, equipment: gym.equipment })}
+            >
+              <Pencil className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-destructive"
+              title="Delete gym"
+              disabled={deleteGym.isPending}
+              onClick={() => deleteGym.mutate(id)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      })}
+      <Button variant="outline" className="w-full" onClick={() => setDraft({ name: '', equipment: [] })}>
+        <Plus className="mr-2 h-4 w-4" />
+        Add Gym
+      </Button>
+    </div>
+  );
+}
@@ -1,21 +1,27 @@
 import { useInternetIdentity } from '../hooks/useInternetIdentity';
+import { useGetOutboxPendingCount } from '../hooks/useQueries';
+import { clearCachedUserData } from '../lib/profileCache';
 import { useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Dumbbell, Settings, LogOut } from 'lucide-react';
 import { toast } from 'sonner';
+import PendingSyncBadge from './PendingSyncBadge';
 
 interface HeaderProps {
   onOpenSettings: () => void;
 }
 
 export default function Header({ onOpenSettings }: HeaderProps) {
-  const { clear } = useInternetIdentity();
+  const { clear, identity } = useInternetIdentity();
   const queryClient = useQueryClient();
+  const { data: pendingWrites = 0 } = useGetOutboxPendingCount();
 
   const handleLogout = async () => {
     try {
+      const principal = identity?.getPrincipal().toString();
       await clear();
       queryClient.clear();
+      if (principal) clearCachedUserData(principal);
       toast.success('Logged out successfully');
     } catch (error) {
       toast.error('Failed to logout');
@@ -34,6 +40,7 @@ export default function Header({ onOpenSettings }: HeaderProps) {
         </div>
 
         <div className="flex items-center gap-2">
+          <PendingSyncBadge count={pendingWrites} />
           <Button
             variant="ghost"
             size="icon"
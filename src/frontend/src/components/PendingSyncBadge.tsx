@@ -0,0 +1,21 @@
+import { Badge } from '@/components/ui/badge';
+import { CloudUpload } from 'lucide-react';
+
+interface PendingSyncBadgeProps {
+  count: number;
+}
+
+export default function PendingSyncBadge({ count }: PendingSyncBadgeProps) {
+  if (count === 0) return null;
+
+  return (
+    <Badge
+      variant="secondary"
+      className="gap-1"
+      title={`${count} change${count !== 1 ? 's' : ''} waiting to sync`}
+    >
+      <CloudUpload className="h-3 w-3" />
+      {count} pending
+    </Badge>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { useGetProgramProgress, useStartProgram, useEndProgram } from '../hooks/useQueries';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Layers, Loader2 } from 'lucide-react';
+
+const PROGRAM_LENGTHS = [4, 5, 6, 7, 8];
+
+export default function ProgramCard() {
+  const { data: progress, isLoading } = useGetProgramProgress();
+  const startProgram = useStartProgram();
+  const endProgram = useEndProgram();
+  const [weekCount, setWeekCount] = useState(6);
+
+  if (isLoading) {
+    return (
+      <Card className="shadow-sm border-border/50">
+        <CardContent className="pt-6 space-y-3">
+          <Skeleton className="h-5 w-32" />
+          <Skeleton className="h-2 w-full" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const isActive = !!progress && !progress.finished;
+  const totalWeeks = progress ? progress.program.weeks.length : 0;
+  const currentWeek = progress ? Number(progress.currentWeek) : 0;
+  const weekTargets = isActive ? progress.program.weeks[currentWeek - 1] : undefined;
+  const loadGain = weekTargets ? Math.round((weekTargets.loadMultiplier - 1) * 100) : 0;
+
+  return (
+    <Card className="shadow-sm border-border/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="h-5 w-5 text-primary" />
+          Training Program
+        </CardTitle>
+        <CardDescription>
+          {isActive
+            ? 'Volume and intensity build each week, finishing with a deload'
+            : progress?.finished
+              ? 'Program complete. Start a new block to keep progressing'
+              : 'Run a 4–8 week block with rising targets and a deload week'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isActive && weekTargets ? (
+          <>
+            <div className="flex items-baseline justify-between gap-2">
+              <p className="text-2xl font-bold">Week {currentWeek} of {totalWeeks}</p>
+              {weekTargets.deload ? (
+                <Badge variant="secondary">Deload</Badge>
+              ) : (
+                <Badge variant="default">{loadGain > 0 ? `+${loadGain}% load` : 'Baseline'}</Badge>
+              )}
+            </div>
+            <Progress value={(currentWeek / totalWeeks) * 100} />
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={endProgram.isPending}
+              onClick={() => endProgram.mutate()}
+            >
+              End Program
+            </Button>
+          </>
+        ) : (
+          <div className="flex items-center gap-3">
+            <Select value={String(weekCount)} onValueChange={(value) => setWeekCount(Number(value))}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PROGRAM_LENGTHS.map((weeks) => (
+                  <SelectItem key={weeks} value={String(weeks)}>
+                    {weeks} weeks
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              className="flex-1 rounded-2xl"
+              disabled={startProgram.isPending}
+              onClick={() => startProgram.mutate(weekCount)}
+            >
+              {startProgram.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Start Program'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
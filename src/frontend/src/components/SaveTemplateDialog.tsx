@@ -0,0 +1,74 @@
+import { useState, useEffect } from 'react';
+import { useSaveWorkoutTemplate } from '../hooks/useQueries';
+import { TemplateExercise } from '../types';
+import { TEMPLATE_NAME_MAX_LENGTH } from '../lib/templates';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { BookmarkPlus, Loader2 } from 'lucide-react';
+
+interface SaveTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  exercises: TemplateExercise[];
+  defaultName: string;
+}
+
+export default function SaveTemplateDialog({ open, onOpenChange, exercises, defaultName }: SaveTemplateDialogProps) {
+  const [name, setName] = useState(defaultName);
+  const saveTemplate = useSaveWorkoutTemplate();
+
+  useEffect(() => {
+    if (open) {
+      setName(defaultName);
+    }
+  }, [open, defaultName]);
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    await saveTemplate.mutateAsync({ name: name.trim(), exercises });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md rounded-t-2xl frosted-glass">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-semibold flex items-center gap-2">
+            <BookmarkPlus className="h-6 w-6 text-primary" />
+            Save as Template
+          </DialogTitle>
+          <DialogDescription className="text-base text-muted-foreground">
+            {exercises.length} exercise{exercises.length !== 1 ? 's' : ''} with their sets, reps and target weights
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-4">
+          <div className="space-y-3">
+            <Label htmlFor="template-name-input" className="text-base font-medium">
+              Template name
+            </Label>
+            <Input
+              id="template-name-input"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={TEMPLATE_NAME_MAX_LENGTH}
+              placeholder="e.g. Heavy Push Day"
+              className="h-12 rounded-lg bg-input border-border"
+              autoComplete="off"
+            />
+          </div>
+
+          <Button
+            onClick={handleSave}
+            className="w-full h-14 bg-primary hover:bg-primary/90 text-primary-foreground rounded-lg text-base font-medium"
+            disabled={!name.trim() || exercises.length === 0 || saveTemplate.isPending}
+          >
+            {saveTemplate.isPending ? <Loader2 className="h-5 w-5 animate-spin" /> : 'Save Template'}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
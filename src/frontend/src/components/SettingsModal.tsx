@@ -1,6 +1,11 @@
 import { useState, useEffect } from 'react';
-import { useSaveCallerUserProfile, useUpdateProfile } from '../hooks/useQueries';
-import { UserProfile, Gender, WeightUnit, TrainingFrequency } from '../backend';
+import { useSaveCallerUserProfile, useUpdateProfile, useIsCallerAdmin } from '../hooks/useQueries';
+import { UserProfile, Gender, WeightUnit, TrainingFrequency, TrainingGoal } from '../backend';
+import { TRAINING_GOAL_OPTIONS, GOAL_DEFAULT_REST_SECONDS } from '../lib/trainingGoals';
+import EquipmentPicker from './EquipmentPicker';
+import GymManager from './GymManager';
+import CustomExerciseManager from './CustomExerciseManager';
+import VarietyManager from './VarietyManager';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
@@ -10,19 +15,22 @@ import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import { toast } from 'sonner';
 import { useTheme } from 'next-themes';
-import { User, Weight, Calendar, Moon, Timer, Dumbbell } from 'lucide-react';
+import { User, Weight, Calendar, Moon, Timer, Dumbbell, Target, Warehouse, MapPin, ListPlus, ShieldCheck, Shuffle } from 'lucide-react';
 
 interface SettingsModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   userProfile: UserProfile;
+  onOpenAdmin?: () => void;
 }
 
-export default function SettingsModal({ open, onOpenChange, userProfile }: SettingsModalProps) {
+export default function SettingsModal({ open, onOpenChange, userProfile, onOpenAdmin }: SettingsModalProps) {
   const [gender, setGender] = useState<Gender>(userProfile.gender);
   const [bodyweightInput, setBodyweightInput] = useState<string>(userProfile.bodyweight.toString());
   const [unit, setUnit] = useState<WeightUnit>(userProfile.weightUnit);
   const [trainingFrequency, setTrainingFrequency] = useState<TrainingFrequency>(userProfile.trainingFrequency);
+  const [trainingGoal, setTrainingGoal] = useState<TrainingGoal>(userProfile.trainingGoal);
+  const [availableEquipment, setAvailableEquipment] = useState<string[]>(userProfile.availableEquipment);
   const [darkMode, setDarkMode] = useState<boolean>(userProfile.darkMode);
   const [restTime, setRestTime] = useState<string>(userProfile.restTime.toString());
   const [muscleGroupRestInterval, setMuscleGroupRestInterval] = useState<string>(userProfile.muscleGroupRestInterval.toString());
@@ -31,6 +39,7 @@ export default function SettingsModal({ open, onOpenChange, userProfile }: Setti
   const { theme, setTheme } = useTheme();
   const saveProfile = useSaveCallerUserProfile();
   const updateProfile = useUpdateProfile();
+  const { data: isAdmin = false } = useIsCallerAdmin();
 
   useEffect(() => {
     if (open) {
@@ -38,6 +47,8 @@ export default function SettingsModal({ open, onOpenChange, userProfile }: Setti
       setBodyweightInput(userProfile.bodyweight.toString());
       setUnit(userProfile.weightUnit);
       setTrainingFrequency(userProfile.trainingFrequency);
+      setTrainingGoal(userProfile.trainingGoal);
+      setAvailableEquipment(userProfile.availableEquipment);
       setDarkMode(userProfile.darkMode);
       setRestTime(userProfile.restTime.toString());
       setMuscleGroupRestInterval(userProfile.muscleGroupRestInterval.toString());
@@ -52,6 +63,11 @@ export default function SettingsModal({ open, onOpenChange, userProfile }: Setti
     }
   }, [saveSuccess]);
 
+  const handleGoalChange = (goal: TrainingGoal) => {
+    setTrainingGoal(goal);
+    setRestTime(GOAL_DEFAULT_REST_SECONDS[goal].toString());
+  };
+
   const handleDarkModeToggle = (checked: boolean) => {
     setDarkMode(checked);
     setTheme(checked ? 'dark' : 'light');
@@ -72,6 +88,8 @@ export default function SettingsModal({ open, onOpenChange, userProfile }: Setti
         bodyweight: userProfile.bodyweight,
         weightUnit: userProfile.weightUnit,
         trainingFrequency,
+        trainingGoal,
+        availableEquipment,
         darkMode,
         restTime: restTimeValue,
         muscleGroupRestInterval: BigInt(muscleGroupRestValue),
@@ -214,6 +232,36 @@ export default function SettingsModal({ open, onOpenChange, userProfile }: Setti
               </Select>
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="settings-goal" className="flex items-center gap-2 text-base font-medium">
+                <Target className="h-4 w-4 text-primary" />
+                Training Goal
+              </Label>
+              <Select value={trainingGoal} onValueChange={(value) => handleGoalChange(value as TrainingGoal)}>
+                <SelectTrigger id="settings-goal" className="h-14 rounded-lg bg-input border-border">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="rounded-lg">
+                  {TRAINING_GOAL_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-muted-foreground">
+                {TRAINING_GOAL_OPTIONS.find((option) => option.value === trainingGoal)?.description}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2 text-base font-medium">
+                <Warehouse className="h-4 w-4 text-primary" />
+                Available Equipment
+              </Label>
+              <EquipmentPicker id="settings-full-gym" value={availableEquipment} onChange={setAvailableEquipment} />
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="settings-rest-time" className="flex items-center gap-2 text-base font-medium">
                 <Timer className="h-4 w-4 text-primary" />
@@ -254,6 +302,50 @@ export default function SettingsModal({ open, onOpenChange, userProfile }: Setti
 
           <Separator className="bg-border" />
 
+          <div className="space-y-4">
+            <h3 className="flex items-center gap-2 text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+              <MapPin className="h-4 w-4 text-primary" />
+              Gyms
+            </h3>
+            <GymManager />
+          </div>
+
+          <Separator className="bg-border" />
+
+          <div className="space-y-4">
+            <h3 className="flex items-center gap-2 text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+              <ListPlus className="h-4 w-4 text-primary" />
+              My Exercises
+            </h3>
+            <CustomExerciseManager />
+          </div>
+
+          <Separator className="bg-border" />
+
+          <div className="space-y-4">
+            <h3 className="flex items-center gap-2 text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+              <Shuffle className="h-4 w-4 text-primary" />
+              Exercise Variety
+            </h3>
+            <VarietyManager />
+          </div>
+
+          {isAdmin && onOpenAdmin && (
+            <Button
+              variant="outline"
+              className="w-full h-12 rounded-lg"
+              onClick={() => {
+                onOpenChange(false);
+                onOpenAdmin();
+              }}
+            >
+              <ShieldCheck className="mr-2 h-4 w-4" />
+              Manage Exercise Library
+            </Button>
+          )}
+
+          <Separator className="bg-border" />
+
           <div className="space-y-4">
             <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
               Appearance
@@ -1,10 +1,12 @@
 import { Flame } from 'lucide-react';
+import PendingSyncBadge from './PendingSyncBadge';
 
 interface StatusBarProps {
   streak: number;
+  pendingWrites: number;
 }
 
-export default function StatusBar({ streak }: StatusBarProps) {
+export default function StatusBar({ streak, pendingWrites }: StatusBarProps) {
   const today = new Date().toLocaleDateString('en-US', { 
     weekday: 'short', 
     month: 'short', 
@@ -18,7 +20,10 @@ export default function StatusBar({ streak }: StatusBarProps) {
           <Flame className="h-5 w-5 text-primary" />
           <span className="text-sm font-semibold">{streak} day streak</span>
         </div>
-        <span className="text-sm text-muted-foreground">{today}</span>
+        <div className="flex items-center gap-2">
+          <PendingSyncBadge count={pendingWrites} />
+          <span className="text-sm text-muted-foreground">{today}</span>
+        </div>
       </div>
     </div>
   );
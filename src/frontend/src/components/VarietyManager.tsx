@@ -0,0 +1,74 @@
+import { useGetVarietySettings, useSetExercisePinned, useResetAnchorLifts } from '../hooks/useQueries';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Anchor, Loader2, PinOff } from 'lucide-react';
+
+export default function VarietyManager() {
+  const { data: variety } = useGetVarietySettings();
+  const setPinned = useSetExercisePinned();
+  const resetAnchors = useResetAnchorLifts();
+
+  const pinned = variety?.pinnedExercises ?? [];
+  const anchors = variety?.anchors.lifts ?? [];
+  const repeatWindow = Number(variety?.repeatWindow ?? 0);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Accessories rotate so nothing from your last {repeatWindow} session{repeatWindow !== 1 ? 's' : ''} repeats.
+        Anchor lifts stay fixed for the current block; swap one out to choose a different main lift.
+      </p>
+
+      <div className="space-y-2">
+        <p className="text-xs font-semibold text-muted-foreground">Anchor lifts</p>
+        {anchors.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Picked with your next generated workout.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {anchors.map((anchor) => (
+              <Badge key={anchor.target} variant="secondary" className="gap-1 text-xs">
+                <Anchor className="h-3 w-3" />
+                {anchor.target}: {anchor.exerciseName}
+              </Badge>
+            ))}
+          </div>
+        )}
+        {anchors.length > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            disabled={resetAnchors.isPending}
+            onClick={() => resetAnchors.mutate()}
+          >
+            {resetAnchors.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Pick New Anchor Lifts'}
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs font-semibold text-muted-foreground">Pinned exercises</p>
+        {pinned.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            Pin an exercise from the workout preview to keep it in every session that trains its muscle group.
+          </p>
+        )}
+        {pinned.map((name) => (
+          <div key={name} className="flex items-center gap-2 rounded-lg border border-border px-3 py-2">
+            <span className="flex-1 min-w-0 truncate font-medium">{name}</span>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8"
+              title="Unpin exercise"
+              disabled={setPinned.isPending}
+              onClick={() => setPinned.mutate({ exerciseName: name, pinned: false })}
+            >
+              <PinOff className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
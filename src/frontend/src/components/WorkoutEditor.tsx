@@ -0,0 +1,151 @@
+import { useState } from 'react';
+import { UserProfile } from '../backend';
+import { SetData, Workout, WorkoutExercise } from '../types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Loader2, Plus, Trash2, X } from 'lucide-react';
+
+interface WorkoutEditorProps {
+  workout: Workout;
+  userProfile: UserProfile;
+  isSaving: boolean;
+  onSave: (workout: Workout) => void;
+  onCancel: () => void;
+}
+
+const LB_PER_KG = 2.20462;
+
+// kg is the stored weight, kept until the set's weight is edited so untouched sets save unchanged
+type EditableSet = SetData & { kg?: number };
+type EditableExercise = Omit<WorkoutExercise, 'setData'> & { setData: EditableSet[] };
+
+export default function WorkoutEditor({ workout, userProfile, isSaving, onSave, onCancel }: WorkoutEditorProps) {
+  const isLb = userProfile.weightUnit === 'lb';
+  // Weights are stored in kg; the editor works in the user's unit and converts edited weights back on save
+  const toDisplayWeight = (kg: number) => Math.round((isLb ? kg * LB_PER_KG : kg) * 10) / 10;
+  const fromDisplayWeight = (value: number) => (isLb ? value / LB_PER_KG : value);
+
+  const [exercises, setExercises] = useState<EditableExercise[]>(() =>
+    workout.exercises.map((we) => ({
+      ...we,
+      setData: we.setData.map((set) => ({ ...set, weight: toDisplayWeight(set.weight), kg: set.weight })),
+    }))
+  );
+
+  const updateSets = (exerciseIdx: number, setData: EditableSet[]) => {
+    setExercises((prev) => prev.map((we, i) => (i === exerciseIdx ? { ...we, setData } : we)));
+  };
+
+  const updateSet = (exerciseIdx: number, setIdx: number, changes: Partial<SetData>) => {
+    updateSets(
+      exerciseIdx,
+      exercises[exerciseIdx].setData.map((set, i) =>
+        i !== setIdx ? set : changes.weight !== undefined ? { ...set, ...changes, kg: undefined } : { ...set, ...changes }
+      )
+    );
+  };
+
+  const addSet = (exerciseIdx: number) => {
+    const we = exercises[exerciseIdx];
+    const last = we.setData[we.setData.length - 1];
+    updateSets(exerciseIdx, [
+      ...we.setData,
+      last ? { ...last } : { weight: toDisplayWeight(we.suggestedWeight), reps: we.reps, kg: we.suggestedWeight },
+    ]);
+  };
+
+  const removeSet = (exerciseIdx: number, setIdx: number) => {
+    updateSets(exerciseIdx, exercises[exerciseIdx].setData.filter((_, i) => i !== setIdx));
+  };
+
+  const removeExercise = (exerciseIdx: number) => {
+    setExercises((prev) => prev.filter((_, i) => i !== exerciseIdx));
+  };
+
+  const isValid =
+    exercises.length > 0 &&
+    exercises.every((we) => we.setData.every((set) => set.weight >= 0 && set.reps > 0));
+
+  const handleSave = () => {
+    if (!isValid) return;
+    const saved = exercises.map((we) => {
+      const setData = we.setData.map((set) => ({ weight: set.kg ?? fromDisplayWeight(set.weight), reps: set.reps }));
+      return { ...we, sets: setData.length > 0 ? setData.length : we.sets, setData };
+    });
+    // Same definition the session page uses when the workout is first logged
+    const totalVolume = saved.reduce(
+      (sum, we) => sum + we.setData.reduce((exSum, set) => exSum + set.weight * set.reps, 0),
+      0
+    );
+    onSave({ ...workout, exercises: saved, totalVolume });
+  };
+
+  return (
+    <div className="space-y-3">
+      {exercises.map((we, exerciseIdx) => (
+        <div key={we.exercise.name} className="rounded-lg border border-border/50 bg-muted/30 p-3">
+          <div className="mb-2 flex items-center justify-between gap-2">
+            <p className="truncate text-sm font-semibold">{we.exercise.name}</p>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 text-destructive"
+              title="Remove exercise"
+              disabled={exercises.length === 1}
+              onClick={() => removeExercise(exerciseIdx)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="space-y-2">
+            {we.setData.map((set, setIdx) => (
+              <div key={setIdx} className="flex items-center gap-2">
+                <span className="w-12 shrink-0 text-xs font-medium text-muted-foreground">Set {setIdx + 1}</span>
+                <Input
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={set.weight}
+                  onChange={(e) => updateSet(exerciseIdx, setIdx, { weight: Math.max(0, Number(e.target.value)) })}
+                  className="h-9 rounded-lg bg-input border-border"
+                  aria-label={`Set ${setIdx + 1} weight`}
+                />
+                <span className="text-xs text-muted-foreground">{userProfile.weightUnit} ×</span>
+                <Input
+                  type="number"
+                  min={1}
+                  value={set.reps}
+                  onChange={(e) => updateSet(exerciseIdx, setIdx, { reps: Math.max(0, Math.round(Number(e.target.value))) })}
+                  className="h-9 w-20 shrink-0 rounded-lg bg-input border-border"
+                  aria-label={`Set ${setIdx + 1} reps`}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  title="Remove set"
+                  onClick={() => removeSet(exerciseIdx, setIdx)}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button variant="outline" size="sm" className="w-full" onClick={() => addSet(exerciseIdx)}>
+              <Plus className="mr-2 h-3 w-3" />
+              Add Set
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <Button variant="outline" className="flex-1" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button className="flex-1" disabled={!isValid || isSaving} onClick={handleSave}>
+          {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Save Changes'}
+        </Button>
+      </div>
+    </div>
+  );
+}
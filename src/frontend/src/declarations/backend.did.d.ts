@@ -10,6 +10,17 @@ import type { ActorMethod } from '@icp-sdk/core/agent';
 import type { IDL } from '@icp-sdk/core/candid';
 import type { Principal } from '@icp-sdk/core/principal';
 
+export interface AlternativeExercise {
+  'suggestedWeight' : number,
+  'reps' : bigint,
+  'exercise' : Exercise,
+  'reason' : string,
+}
+export interface AnchorBlock {
+  'blockStart' : bigint,
+  'lifts' : Array<AnchorLift>,
+}
+export interface AnchorLift { 'target' : string, 'exerciseName' : string }
 export type AppError = { 'userNotFound' : string } |
   { 'userProfileNotFound' : string } |
   { 'adminOnly' : string } |
@@ -17,16 +28,30 @@ export type AppError = { 'userNotFound' : string } |
   { 'badArguments' : string } |
   { 'optimizationFailed' : string } |
   { 'unauthorized' : string };
+export interface CustomExercise { 'id' : bigint, 'exercise' : Exercise }
 export interface Exercise {
   'primaryMuscleGroup' : string,
+  'movementPattern' : MovementPattern,
   'recoveryTime' : bigint,
   'name' : string,
+  'secondaryMuscleGroups' : Array<string>,
   'equipmentType' : string,
+  'compound' : boolean,
   'demoUrl' : string,
 }
 export type Gender = { 'other' : null } |
   { 'female' : null } |
   { 'male' : null };
+export interface GroupTarget { 'limit' : bigint, 'muscleGroup' : string }
+export interface Gym {
+  'id' : bigint,
+  'equipment' : Array<string>,
+  'name' : string,
+}
+export interface GymSettings {
+  'gyms' : Array<Gym>,
+  'defaultGymId' : [] | [bigint],
+}
 export interface LegSubgroupRecovery {
   'legs' : MuscleRecovery,
   'quads' : MuscleRecovery,
@@ -34,10 +59,69 @@ export interface LegSubgroupRecovery {
   'glutes' : MuscleRecovery,
   'calves' : MuscleRecovery,
 }
+export interface LibraryCoverage {
+  'generatorLimit' : bigint,
+  'deprecatedCount' : bigint,
+  'target' : string,
+  'activeCount' : bigint,
+}
+export interface LibraryExercise {
+  'id' : bigint,
+  'exercise' : Exercise,
+  'deprecated' : boolean,
+}
+export interface LibraryImportSummary { 'added' : bigint, 'updated' : bigint }
+export type MovementPattern = { 'calfRaise' : null } |
+  { 'verticalPull' : null } |
+  { 'verticalPush' : null } |
+  { 'hinge' : null } |
+  { 'horizontalPull' : null } |
+  { 'horizontalPush' : null } |
+  { 'elbowExtension' : null } |
+  { 'hipExtension' : null } |
+  { 'carry' : null } |
+  { 'kneeFlexion' : null } |
+  { 'shoulderExtension' : null } |
+  { 'trunkRotation' : null } |
+  { 'antiExtension' : null } |
+  { 'lunge' : null } |
+  { 'squat' : null } |
+  { 'rearDeltFly' : null } |
+  { 'shoulderRaise' : null } |
+  { 'trunkFlexion' : null } |
+  { 'kneeExtension' : null } |
+  { 'antiRotation' : null } |
+  { 'chestFly' : null } |
+  { 'elbowFlexion' : null };
+export interface MuscleGroupVolume {
+  'hardSets' : bigint,
+  'bucketStart' : bigint,
+  'muscleGroup' : string,
+  'tonnage' : number,
+}
 export interface MuscleRecovery {
+  'recoveryTime' : bigint,
   'lastTrained' : bigint,
   'recoveryPercentage' : number,
 }
+export type PlannedSession = { 'pull' : null } |
+  { 'push' : null } |
+  { 'lowerBody' : null } |
+  { 'fullBody' : null } |
+  { 'upperBody' : null };
+export interface Program { 'startedAt' : bigint, 'weeks' : Array<ProgramWeek> }
+export interface ProgramProgress {
+  'currentWeek' : bigint,
+  'finished' : boolean,
+  'program' : Program,
+}
+export interface ProgramWeek {
+  'repOffset' : bigint,
+  'week' : bigint,
+  'deload' : boolean,
+  'loadMultiplier' : number,
+  'setMultiplier' : number,
+}
 export interface RecoveryStateWithLegs {
   'calvesRecovery' : MuscleRecovery,
   'quadsRecovery' : MuscleRecovery,
@@ -50,20 +134,75 @@ export interface RecoveryStateWithLegs {
   'legs' : MuscleRecovery,
   'glutesRecovery' : MuscleRecovery,
 }
-export type Result = { 'ok' : null } |
+export type Result = { 'ok' : Workout } |
+  { 'err' : AppError };
+export type Result_1 = { 'ok' : LibraryExercise } |
+  { 'err' : AppError };
+export type Result_10 = { 'ok' : WeeklyPlan } |
+  { 'err' : AppError };
+export type Result_11 = { 'ok' : VarietySettings } |
+  { 'err' : AppError };
+export type Result_12 = { 'ok' : [] | [UserProfile] } |
+  { 'err' : AppError };
+export type Result_13 = { 'ok' : Array<[string, SetConfiguration]> } |
+  { 'err' : AppError };
+export type Result_14 = { 'ok' : RecoveryStateWithLegs } |
+  { 'err' : AppError };
+export type Result_15 = { 'ok' : [] | [ProgramProgress] } |
+  { 'err' : AppError };
+export type Result_16 = { 'ok' : Array<MuscleGroupVolume> } |
+  { 'err' : AppError };
+export type Result_17 = { 'ok' : Array<LibraryCoverage> } |
+  { 'err' : AppError };
+export type Result_18 = { 'ok' : LegSubgroupRecovery } |
+  { 'err' : AppError };
+export type Result_19 = { 'ok' : GymSettings } |
+  { 'err' : AppError };
+export type Result_2 = { 'ok' : Program } |
+  { 'err' : AppError };
+export type Result_20 = { 'ok' : Array<LibraryExercise> } |
   { 'err' : AppError };
-export type Result_1 = { 'ok' : [] | [UserProfile] } |
+export type Result_21 = { 'ok' : Array<CustomExercise> } |
   { 'err' : AppError };
-export type Result_2 = { 'ok' : RecoveryStateWithLegs } |
+export type Result_22 = { 'ok' : Array<AlternativeExercise> } |
   { 'err' : AppError };
-export type Result_3 = { 'ok' : LegSubgroupRecovery } |
+export type Result_23 = { 'ok' : WorkoutWithNote } |
   { 'err' : AppError };
-export type Result_4 = { 'ok' : WorkoutWithNote } |
+export type Result_24 = { 'ok' : Array<[string, bigint]> } |
   { 'err' : AppError };
+export type Result_3 = { 'ok' : null } |
+  { 'err' : AppError };
+export type Result_4 = { 'ok' : WorkoutTemplate } |
+  { 'err' : AppError };
+export type Result_5 = { 'ok' : Gym } |
+  { 'err' : AppError };
+export type Result_6 = { 'ok' : CustomExercise } |
+  { 'err' : AppError };
+export type Result_7 = { 'ok' : LibraryImportSummary } |
+  { 'err' : AppError };
+export type Result_8 = { 'ok' : Array<WorkoutTemplate> } |
+  { 'err' : AppError };
+export type Result_9 = { 'ok' : Array<Workout> } |
+  { 'err' : AppError };
+export interface SetConfiguration {
+  'weight' : number,
+  'reps' : bigint,
+  'sets' : bigint,
+}
 export interface SetData { 'weight' : number, 'reps' : bigint }
+export interface TemplateExercise {
+  'reps' : bigint,
+  'sets' : bigint,
+  'exercise' : Exercise,
+  'targetWeight' : number,
+}
 export type TrainingFrequency = { 'threeDays' : null } |
   { 'fiveDays' : null } |
   { 'fourDays' : null };
+export type TrainingGoal = { 'generalFitness' : null } |
+  { 'strength' : null } |
+  { 'endurance' : null } |
+  { 'hypertrophy' : null };
 export interface UserProfile {
   'bodyweight' : number,
   'muscleGroupRestInterval' : bigint,
@@ -71,13 +210,37 @@ export interface UserProfile {
   'weightUnit' : WeightUnit,
   'darkMode' : boolean,
   'gender' : Gender,
+  'trainingGoal' : TrainingGoal,
+  'availableEquipment' : Array<string>,
   'restTime' : bigint,
 }
 export type UserRole = { 'admin' : null } |
   { 'user' : null } |
   { 'guest' : null };
+export interface VarietySettings {
+  'anchors' : AnchorBlock,
+  'pinnedExercises' : Array<string>,
+  'repeatWindow' : bigint,
+}
+export type VolumeBucket = { 'day' : null } |
+  { 'month' : null } |
+  { 'week' : null };
+export interface WeeklyPlan {
+  'completedSessions' : bigint,
+  'startedAt' : bigint,
+  'sessions' : Array<PlannedSession>,
+  'frequency' : TrainingFrequency,
+}
 export type WeightUnit = { 'kg' : null } |
   { 'lb' : null };
+export interface Workout {
+  'id' : bigint,
+  'clientId' : [] | [string],
+  'totalVolume' : number,
+  'exercises' : Array<WorkoutExercise>,
+  'gymId' : [] | [bigint],
+  'timestamp' : bigint,
+}
 export interface WorkoutExercise {
   'setData' : Array<SetData>,
   'suggestedWeight' : number,
@@ -85,6 +248,25 @@ export interface WorkoutExercise {
   'sets' : bigint,
   'exercise' : Exercise,
 }
+export interface WorkoutInput {
+  'clientId' : string,
+  'totalVolume' : number,
+  'exercises' : Array<WorkoutExercise>,
+  'gymId' : [] | [bigint],
+  'timestamp' : bigint,
+}
+export interface WorkoutSpec {
+  'groups' : Array<GroupTarget>,
+  'equipmentFilter' : Array<string>,
+  'name' : string,
+  'maxExercises' : bigint,
+}
+export interface WorkoutTemplate {
+  'id' : bigint,
+  'name' : string,
+  'exercises' : Array<TemplateExercise>,
+  'updatedAt' : bigint,
+}
 export interface WorkoutWithNote {
   'totalVolume' : number,
   'note' : string,
@@ -92,19 +274,64 @@ export interface WorkoutWithNote {
   'timestamp' : bigint,
 }
 export interface _SERVICE {
+  'addLibraryExercise' : ActorMethod<[Exercise], Result_1>,
   'assignCallerUserRole' : ActorMethod<[Principal, UserRole], undefined>,
-  'debugGetExerciseCounts' : ActorMethod<[], Array<[string, bigint]>>,
-  'generateFullBodyWorkout' : ActorMethod<[], Result_4>,
-  'generateLowerBodyWorkout' : ActorMethod<[], Result_4>,
-  'generateUpperBodyWorkout' : ActorMethod<[], Result_4>,
-  'getCallerUserProfile' : ActorMethod<[], Result_1>,
+  'clearSetConfigurations' : ActorMethod<[], Result_3>,
+  'debugGetExerciseCounts' : ActorMethod<[], Result_24>,
+  'deleteCustomExercise' : ActorMethod<[bigint], Result_3>,
+  'deleteGym' : ActorMethod<[bigint], Result_3>,
+  'deleteWorkout' : ActorMethod<[bigint], Result_3>,
+  'deleteWorkoutTemplate' : ActorMethod<[bigint], Result_3>,
+  'endProgram' : ActorMethod<[], Result_3>,
+  'generateFullBodyWorkout' : ActorMethod<[[] | [bigint]], Result_23>,
+  'generateLowerBodyWorkout' : ActorMethod<[[] | [bigint]], Result_23>,
+  'generatePullWorkout' : ActorMethod<[[] | [bigint]], Result_23>,
+  'generatePushWorkout' : ActorMethod<[[] | [bigint]], Result_23>,
+  'generateUpperBodyWorkout' : ActorMethod<[[] | [bigint]], Result_23>,
+  'generateWorkout' : ActorMethod<[WorkoutSpec, [] | [bigint]], Result_23>,
+  'getAlternativeExercises' : ActorMethod<
+    [string, string, Array<string>, [] | [string], [] | [bigint]],
+    Result_22
+  >,
+  'getCallerUserProfile' : ActorMethod<[], Result_12>,
   'getCallerUserRole' : ActorMethod<[], UserRole>,
-  'getLegSubgroupRecovery' : ActorMethod<[], Result_3>,
-  'getRecoveryState' : ActorMethod<[], Result_2>,
-  'getUserProfile' : ActorMethod<[Principal], Result_1>,
+  'getCustomExercises' : ActorMethod<[], Result_21>,
+  'getExerciseLibrary' : ActorMethod<[], Result_20>,
+  'getGymSettings' : ActorMethod<[], Result_19>,
+  'getLegSubgroupRecovery' : ActorMethod<[], Result_18>,
+  'getLibraryCoverage' : ActorMethod<[], Result_17>,
+  'getMuscleGroupVolume' : ActorMethod<
+    [bigint, bigint, VolumeBucket],
+    Result_16
+  >,
+  'getProgramProgress' : ActorMethod<[], Result_15>,
+  'getRecoveryState' : ActorMethod<[], Result_14>,
+  'getSetConfigurations' : ActorMethod<[], Result_13>,
+  'getUserProfile' : ActorMethod<[Principal], Result_12>,
+  'getVarietySettings' : ActorMethod<[], Result_11>,
+  'getWeeklyPlan' : ActorMethod<[], Result_10>,
+  'getWorkoutHistory' : ActorMethod<[], Result_9>,
+  'getWorkoutTemplates' : ActorMethod<[], Result_8>,
+  'importLibraryExercises' : ActorMethod<[Array<Exercise>], Result_7>,
   'initializeAccessControl' : ActorMethod<[], undefined>,
   'isCallerAdmin' : ActorMethod<[], boolean>,
-  'saveCallerUserProfile' : ActorMethod<[UserProfile], Result>,
+  'recordExerciseChange' : ActorMethod<[string, string], Result_3>,
+  'resetAnchorLifts' : ActorMethod<[], Result_3>,
+  'saveCallerUserProfile' : ActorMethod<[UserProfile], Result_3>,
+  'saveCustomExercise' : ActorMethod<[[] | [bigint], Exercise], Result_6>,
+  'saveGym' : ActorMethod<[[] | [bigint], string, Array<string>], Result_5>,
+  'saveSetConfiguration' : ActorMethod<[string, SetConfiguration], Result_3>,
+  'saveWorkout' : ActorMethod<[WorkoutInput], Result>,
+  'saveWorkoutTemplate' : ActorMethod<
+    [[] | [bigint], string, Array<TemplateExercise>],
+    Result_4
+  >,
+  'setDefaultGym' : ActorMethod<[bigint], Result_3>,
+  'setExercisePinned' : ActorMethod<[string, boolean], Result_3>,
+  'setLibraryExerciseDeprecated' : ActorMethod<[bigint, boolean], Result_3>,
+  'startProgram' : ActorMethod<[bigint], Result_2>,
+  'updateLibraryExercise' : ActorMethod<[bigint, Exercise], Result_1>,
+  'updateWorkout' : ActorMethod<[bigint, WorkoutInput], Result>,
 }
 export declare const idlService: IDL.ServiceClass;
 export declare const idlInitArgs: IDL.Type[];
@@ -8,19 +8,69 @@
 
 import { IDL } from '@icp-sdk/core/candid';
 
-export const UserRole = IDL.Variant({
-  'admin' : IDL.Null,
-  'user' : IDL.Null,
-  'guest' : IDL.Null,
+export const MovementPattern = IDL.Variant({
+  'calfRaise' : IDL.Null,
+  'verticalPull' : IDL.Null,
+  'verticalPush' : IDL.Null,
+  'hinge' : IDL.Null,
+  'horizontalPull' : IDL.Null,
+  'horizontalPush' : IDL.Null,
+  'elbowExtension' : IDL.Null,
+  'hipExtension' : IDL.Null,
+  'carry' : IDL.Null,
+  'kneeFlexion' : IDL.Null,
+  'shoulderExtension' : IDL.Null,
+  'trunkRotation' : IDL.Null,
+  'antiExtension' : IDL.Null,
+  'lunge' : IDL.Null,
+  'squat' : IDL.Null,
+  'rearDeltFly' : IDL.Null,
+  'shoulderRaise' : IDL.Null,
+  'trunkFlexion' : IDL.Null,
+  'kneeExtension' : IDL.Null,
+  'antiRotation' : IDL.Null,
+  'chestFly' : IDL.Null,
+  'elbowFlexion' : IDL.Null,
 });
-export const SetData = IDL.Record({ 'weight' : IDL.Float64, 'reps' : IDL.Nat });
 export const Exercise = IDL.Record({
   'primaryMuscleGroup' : IDL.Text,
+  'movementPattern' : MovementPattern,
   'recoveryTime' : IDL.Int,
   'name' : IDL.Text,
+  'secondaryMuscleGroups' : IDL.Vec(IDL.Text),
   'equipmentType' : IDL.Text,
+  'compound' : IDL.Bool,
   'demoUrl' : IDL.Text,
 });
+export const LibraryExercise = IDL.Record({
+  'id' : IDL.Nat,
+  'exercise' : Exercise,
+  'deprecated' : IDL.Bool,
+});
+export const AppError = IDL.Variant({
+  'userNotFound' : IDL.Text,
+  'userProfileNotFound' : IDL.Text,
+  'adminOnly' : IDL.Text,
+  'internalError' : IDL.Text,
+  'badArguments' : IDL.Text,
+  'optimizationFailed' : IDL.Text,
+  'unauthorized' : IDL.Text,
+});
+export const Result_1 = IDL.Variant({
+  'ok' : LibraryExercise,
+  'err' : AppError,
+});
+export const UserRole = IDL.Variant({
+  'admin' : IDL.Null,
+  'user' : IDL.Null,
+  'guest' : IDL.Null,
+});
+export const Result_3 = IDL.Variant({ 'ok' : IDL.Null, 'err' : AppError });
+export const Result_24 = IDL.Variant({
+  'ok' : IDL.Vec(IDL.Tuple(IDL.Text, IDL.Nat)),
+  'err' : AppError,
+});
+export const SetData = IDL.Record({ 'weight' : IDL.Float64, 'reps' : IDL.Nat });
 export const WorkoutExercise = IDL.Record({
   'setData' : IDL.Vec(SetData),
   'suggestedWeight' : IDL.Float64,
@@ -34,19 +84,30 @@ export const WorkoutWithNote = IDL.Record({
   'exercises' : IDL.Vec(WorkoutExercise),
   'timestamp' : IDL.Int,
 });
-export const AppError = IDL.Variant({
-  'userNotFound' : IDL.Text,
-  'userProfileNotFound' : IDL.Text,
-  'adminOnly' : IDL.Text,
-  'internalError' : IDL.Text,
-  'badArguments' : IDL.Text,
-  'optimizationFailed' : IDL.Text,
-  'unauthorized' : IDL.Text,
-});
-export const Result_4 = IDL.Variant({
+export const Result_23 = IDL.Variant({
   'ok' : WorkoutWithNote,
   'err' : AppError,
 });
+export const GroupTarget = IDL.Record({
+  'limit' : IDL.Nat,
+  'muscleGroup' : IDL.Text,
+});
+export const WorkoutSpec = IDL.Record({
+  'groups' : IDL.Vec(GroupTarget),
+  'equipmentFilter' : IDL.Vec(IDL.Text),
+  'name' : IDL.Text,
+  'maxExercises' : IDL.Nat,
+});
+export const AlternativeExercise = IDL.Record({
+  'suggestedWeight' : IDL.Float64,
+  'reps' : IDL.Nat,
+  'exercise' : Exercise,
+  'reason' : IDL.Text,
+});
+export const Result_22 = IDL.Variant({
+  'ok' : IDL.Vec(AlternativeExercise),
+  'err' : AppError,
+});
 export const TrainingFrequency = IDL.Variant({
   'threeDays' : IDL.Null,
   'fiveDays' : IDL.Null,
@@ -58,6 +119,12 @@ export const Gender = IDL.Variant({
   'female' : IDL.Null,
   'male' : IDL.Null,
 });
+export const TrainingGoal = IDL.Variant({
+  'generalFitness' : IDL.Null,
+  'strength' : IDL.Null,
+  'endurance' : IDL.Null,
+  'hypertrophy' : IDL.Null,
+});
 export const UserProfile = IDL.Record({
   'bodyweight' : IDL.Float64,
   'muscleGroupRestInterval' : IDL.Int,
@@ -65,13 +132,38 @@ export const UserProfile = IDL.Record({
   'weightUnit' : WeightUnit,
   'darkMode' : IDL.Bool,
   'gender' : Gender,
+  'trainingGoal' : TrainingGoal,
+  'availableEquipment' : IDL.Vec(IDL.Text),
   'restTime' : IDL.Int,
 });
-export const Result_1 = IDL.Variant({
+export const Result_12 = IDL.Variant({
   'ok' : IDL.Opt(UserProfile),
   'err' : AppError,
 });
+export const CustomExercise = IDL.Record({
+  'id' : IDL.Nat,
+  'exercise' : Exercise,
+});
+export const Result_21 = IDL.Variant({
+  'ok' : IDL.Vec(CustomExercise),
+  'err' : AppError,
+});
+export const Result_20 = IDL.Variant({
+  'ok' : IDL.Vec(LibraryExercise),
+  'err' : AppError,
+});
+export const Gym = IDL.Record({
+  'id' : IDL.Nat,
+  'equipment' : IDL.Vec(IDL.Text),
+  'name' : IDL.Text,
+});
+export const GymSettings = IDL.Record({
+  'gyms' : IDL.Vec(Gym),
+  'defaultGymId' : IDL.Opt(IDL.Nat),
+});
+export const Result_19 = IDL.Variant({ 'ok' : GymSettings, 'err' : AppError });
 export const MuscleRecovery = IDL.Record({
+  'recoveryTime' : IDL.Int,
   'lastTrained' : IDL.Int,
   'recoveryPercentage' : IDL.Float64,
 });
@@ -82,10 +174,55 @@ export const LegSubgroupRecovery = IDL.Record({
   'glutes' : MuscleRecovery,
   'calves' : MuscleRecovery,
 });
-export const Result_3 = IDL.Variant({
+export const Result_18 = IDL.Variant({
   'ok' : LegSubgroupRecovery,
   'err' : AppError,
 });
+export const LibraryCoverage = IDL.Record({
+  'generatorLimit' : IDL.Nat,
+  'deprecatedCount' : IDL.Nat,
+  'target' : IDL.Text,
+  'activeCount' : IDL.Nat,
+});
+export const Result_17 = IDL.Variant({
+  'ok' : IDL.Vec(LibraryCoverage),
+  'err' : AppError,
+});
+export const VolumeBucket = IDL.Variant({
+  'day' : IDL.Null,
+  'month' : IDL.Null,
+  'week' : IDL.Null,
+});
+export const MuscleGroupVolume = IDL.Record({
+  'hardSets' : IDL.Nat,
+  'bucketStart' : IDL.Int,
+  'muscleGroup' : IDL.Text,
+  'tonnage' : IDL.Float64,
+});
+export const Result_16 = IDL.Variant({
+  'ok' : IDL.Vec(MuscleGroupVolume),
+  'err' : AppError,
+});
+export const ProgramWeek = IDL.Record({
+  'repOffset' : IDL.Int,
+  'week' : IDL.Nat,
+  'deload' : IDL.Bool,
+  'loadMultiplier' : IDL.Float64,
+  'setMultiplier' : IDL.Float64,
+});
+export const Program = IDL.Record({
+  'startedAt' : IDL.Int,
+  'weeks' : IDL.Vec(ProgramWeek),
+});
+export const ProgramProgress = IDL.Record({
+  'currentWeek' : IDL.Nat,
+  'finished' : IDL.Bool,
+  'program' : Program,
+});
+export const Result_15 = IDL.Variant({
+  'ok' : IDL.Opt(ProgramProgress),
+  'err' : AppError,
+});
 export const RecoveryStateWithLegs = IDL.Record({
   'calvesRecovery' : MuscleRecovery,
   'quadsRecovery' : MuscleRecovery,
@@ -98,48 +235,258 @@ export const RecoveryStateWithLegs = IDL.Record({
   'legs' : MuscleRecovery,
   'glutesRecovery' : MuscleRecovery,
 });
-export const Result_2 = IDL.Variant({
+export const Result_14 = IDL.Variant({
   'ok' : RecoveryStateWithLegs,
   'err' : AppError,
 });
-export const Result = IDL.Variant({ 'ok' : IDL.Null, 'err' : AppError });
+export const SetConfiguration = IDL.Record({
+  'weight' : IDL.Float64,
+  'reps' : IDL.Nat,
+  'sets' : IDL.Nat,
+});
+export const Result_13 = IDL.Variant({
+  'ok' : IDL.Vec(IDL.Tuple(IDL.Text, SetConfiguration)),
+  'err' : AppError,
+});
+export const AnchorLift = IDL.Record({
+  'target' : IDL.Text,
+  'exerciseName' : IDL.Text,
+});
+export const AnchorBlock = IDL.Record({
+  'blockStart' : IDL.Int,
+  'lifts' : IDL.Vec(AnchorLift),
+});
+export const VarietySettings = IDL.Record({
+  'anchors' : AnchorBlock,
+  'pinnedExercises' : IDL.Vec(IDL.Text),
+  'repeatWindow' : IDL.Nat,
+});
+export const Result_11 = IDL.Variant({
+  'ok' : VarietySettings,
+  'err' : AppError,
+});
+export const PlannedSession = IDL.Variant({
+  'pull' : IDL.Null,
+  'push' : IDL.Null,
+  'lowerBody' : IDL.Null,
+  'fullBody' : IDL.Null,
+  'upperBody' : IDL.Null,
+});
+export const WeeklyPlan = IDL.Record({
+  'completedSessions' : IDL.Nat,
+  'startedAt' : IDL.Int,
+  'sessions' : IDL.Vec(PlannedSession),
+  'frequency' : TrainingFrequency,
+});
+export const Result_10 = IDL.Variant({ 'ok' : WeeklyPlan, 'err' : AppError });
+export const Workout = IDL.Record({
+  'id' : IDL.Nat,
+  'clientId' : IDL.Opt(IDL.Text),
+  'totalVolume' : IDL.Float64,
+  'exercises' : IDL.Vec(WorkoutExercise),
+  'gymId' : IDL.Opt(IDL.Nat),
+  'timestamp' : IDL.Int,
+});
+export const Result_9 = IDL.Variant({
+  'ok' : IDL.Vec(Workout),
+  'err' : AppError,
+});
+export const TemplateExercise = IDL.Record({
+  'reps' : IDL.Nat,
+  'sets' : IDL.Nat,
+  'exercise' : Exercise,
+  'targetWeight' : IDL.Float64,
+});
+export const WorkoutTemplate = IDL.Record({
+  'id' : IDL.Nat,
+  'name' : IDL.Text,
+  'exercises' : IDL.Vec(TemplateExercise),
+  'updatedAt' : IDL.Int,
+});
+export const Result_8 = IDL.Variant({
+  'ok' : IDL.Vec(WorkoutTemplate),
+  'err' : AppError,
+});
+export const LibraryImportSummary = IDL.Record({
+  'added' : IDL.Nat,
+  'updated' : IDL.Nat,
+});
+export const Result_7 = IDL.Variant({
+  'ok' : LibraryImportSummary,
+  'err' : AppError,
+});
+export const Result_6 = IDL.Variant({
+  'ok' : CustomExercise,
+  'err' : AppError,
+});
+export const Result_5 = IDL.Variant({ 'ok' : Gym, 'err' : AppError });
+export const WorkoutInput = IDL.Record({
+  'clientId' : IDL.Text,
+  'totalVolume' : IDL.Float64,
+  'exercises' : IDL.Vec(WorkoutExercise),
+  'gymId' : IDL.Opt(IDL.Nat),
+  'timestamp' : IDL.Int,
+});
+export const Result = IDL.Variant({ 'ok' : Workout, 'err' : AppError });
+export const Result_4 = IDL.Variant({
+  'ok' : WorkoutTemplate,
+  'err' : AppError,
+});
+export const Result_2 = IDL.Variant({ 'ok' : Program, 'err' : AppError });
 
 export const idlService = IDL.Service({
+  'addLibraryExercise' : IDL.Func([Exercise], [Result_1], []),
   'assignCallerUserRole' : IDL.Func([IDL.Principal, UserRole], [], []),
-  'debugGetExerciseCounts' : IDL.Func(
+  'clearSetConfigurations' : IDL.Func([], [Result_3], []),
+  'debugGetExerciseCounts' : IDL.Func([], [Result_24], ['query']),
+  'deleteCustomExercise' : IDL.Func([IDL.Nat], [Result_3], []),
+  'deleteGym' : IDL.Func([IDL.Nat], [Result_3], []),
+  'deleteWorkout' : IDL.Func([IDL.Nat], [Result_3], []),
+  'deleteWorkoutTemplate' : IDL.Func([IDL.Nat], [Result_3], []),
+  'endProgram' : IDL.Func([], [Result_3], []),
+  'generateFullBodyWorkout' : IDL.Func([IDL.Opt(IDL.Nat)], [Result_23], []),
+  'generateLowerBodyWorkout' : IDL.Func([IDL.Opt(IDL.Nat)], [Result_23], []),
+  'generatePullWorkout' : IDL.Func([IDL.Opt(IDL.Nat)], [Result_23], []),
+  'generatePushWorkout' : IDL.Func([IDL.Opt(IDL.Nat)], [Result_23], []),
+  'generateUpperBodyWorkout' : IDL.Func([IDL.Opt(IDL.Nat)], [Result_23], []),
+  'generateWorkout' : IDL.Func(
+      [WorkoutSpec, IDL.Opt(IDL.Nat)],
+      [Result_23],
       [],
-      [IDL.Vec(IDL.Tuple(IDL.Text, IDL.Nat))],
+    ),
+  'getAlternativeExercises' : IDL.Func(
+      [
+        IDL.Text,
+        IDL.Text,
+        IDL.Vec(IDL.Text),
+        IDL.Opt(IDL.Text),
+        IDL.Opt(IDL.Nat),
+      ],
+      [Result_22],
       ['query'],
     ),
-  'generateFullBodyWorkout' : IDL.Func([], [Result_4], []),
-  'generateLowerBodyWorkout' : IDL.Func([], [Result_4], []),
-  'generateUpperBodyWorkout' : IDL.Func([], [Result_4], []),
-  'getCallerUserProfile' : IDL.Func([], [Result_1], ['query']),
+  'getCallerUserProfile' : IDL.Func([], [Result_12], ['query']),
   'getCallerUserRole' : IDL.Func([], [UserRole], ['query']),
-  'getLegSubgroupRecovery' : IDL.Func([], [Result_3], ['query']),
-  'getRecoveryState' : IDL.Func([], [Result_2], ['query']),
-  'getUserProfile' : IDL.Func([IDL.Principal], [Result_1], ['query']),
+  'getCustomExercises' : IDL.Func([], [Result_21], ['query']),
+  'getExerciseLibrary' : IDL.Func([], [Result_20], ['query']),
+  'getGymSettings' : IDL.Func([], [Result_19], ['query']),
+  'getLegSubgroupRecovery' : IDL.Func([], [Result_18], ['query']),
+  'getLibraryCoverage' : IDL.Func([], [Result_17], ['query']),
+  'getMuscleGroupVolume' : IDL.Func(
+      [IDL.Int, IDL.Int, VolumeBucket],
+      [Result_16],
+      ['query'],
+    ),
+  'getProgramProgress' : IDL.Func([], [Result_15], ['query']),
+  'getRecoveryState' : IDL.Func([], [Result_14], ['query']),
+  'getSetConfigurations' : IDL.Func([], [Result_13], ['query']),
+  'getUserProfile' : IDL.Func([IDL.Principal], [Result_12], ['query']),
+  'getVarietySettings' : IDL.Func([], [Result_11], ['query']),
+  'getWeeklyPlan' : IDL.Func([], [Result_10], ['query']),
+  'getWorkoutHistory' : IDL.Func([], [Result_9], ['query']),
+  'getWorkoutTemplates' : IDL.Func([], [Result_8], ['query']),
+  'importLibraryExercises' : IDL.Func([IDL.Vec(Exercise)], [Result_7], []),
   'initializeAccessControl' : IDL.Func([], [], []),
   'isCallerAdmin' : IDL.Func([], [IDL.Bool], ['query']),
-  'saveCallerUserProfile' : IDL.Func([UserProfile], [Result], []),
+  'recordExerciseChange' : IDL.Func([IDL.Text, IDL.Text], [Result_3], []),
+  'resetAnchorLifts' : IDL.Func([], [Result_3], []),
+  'saveCallerUserProfile' : IDL.Func([UserProfile], [Result_3], []),
+  'saveCustomExercise' : IDL.Func(
+      [IDL.Opt(IDL.Nat), Exercise],
+      [Result_6],
+      [],
+    ),
+  'saveGym' : IDL.Func(
+      [IDL.Opt(IDL.Nat), IDL.Text, IDL.Vec(IDL.Text)],
+      [Result_5],
+      [],
+    ),
+  'saveSetConfiguration' : IDL.Func(
+      [IDL.Text, SetConfiguration],
+      [Result_3],
+      [],
+    ),
+  'saveWorkout' : IDL.Func([WorkoutInput], [Result], []),
+  'saveWorkoutTemplate' : IDL.Func(
+      [IDL.Opt(IDL.Nat), IDL.Text, IDL.Vec(TemplateExercise)],
+      [Result_4],
+      [],
+    ),
+  'setDefaultGym' : IDL.Func([IDL.Nat], [Result_3], []),
+  'setExercisePinned' : IDL.Func([IDL.Text, IDL.Bool], [Result_3], []),
+  'setLibraryExerciseDeprecated' : IDL.Func(
+      [IDL.Nat, IDL.Bool],
+      [Result_3],
+      [],
+    ),
+  'startProgram' : IDL.Func([IDL.Nat], [Result_2], []),
+  'updateLibraryExercise' : IDL.Func([IDL.Nat, Exercise], [Result_1], []),
+  'updateWorkout' : IDL.Func([IDL.Nat, WorkoutInput], [Result], []),
 });
 
 export const idlInitArgs = [];
 
 export const idlFactory = ({ IDL }) => {
-  const UserRole = IDL.Variant({
-    'admin' : IDL.Null,
-    'user' : IDL.Null,
-    'guest' : IDL.Null,
+  const MovementPattern = IDL.Variant({
+    'calfRaise' : IDL.Null,
+    'verticalPull' : IDL.Null,
+    'verticalPush' : IDL.Null,
+    'hinge' : IDL.Null,
+    'horizontalPull' : IDL.Null,
+    'horizontalPush' : IDL.Null,
+    'elbowExtension' : IDL.Null,
+    'hipExtension' : IDL.Null,
+    'carry' : IDL.Null,
+    'kneeFlexion' : IDL.Null,
+    'shoulderExtension' : IDL.Null,
+    'trunkRotation' : IDL.Null,
+    'antiExtension' : IDL.Null,
+    'lunge' : IDL.Null,
+    'squat' : IDL.Null,
+    'rearDeltFly' : IDL.Null,
+    'shoulderRaise' : IDL.Null,
+    'trunkFlexion' : IDL.Null,
+    'kneeExtension' : IDL.Null,
+    'antiRotation' : IDL.Null,
+    'chestFly' : IDL.Null,
+    'elbowFlexion' : IDL.Null,
   });
-  const SetData = IDL.Record({ 'weight' : IDL.Float64, 'reps' : IDL.Nat });
   const Exercise = IDL.Record({
     'primaryMuscleGroup' : IDL.Text,
+    'movementPattern' : MovementPattern,
     'recoveryTime' : IDL.Int,
     'name' : IDL.Text,
+    'secondaryMuscleGroups' : IDL.Vec(IDL.Text),
     'equipmentType' : IDL.Text,
+    'compound' : IDL.Bool,
     'demoUrl' : IDL.Text,
   });
+  const LibraryExercise = IDL.Record({
+    'id' : IDL.Nat,
+    'exercise' : Exercise,
+    'deprecated' : IDL.Bool,
+  });
+  const AppError = IDL.Variant({
+    'userNotFound' : IDL.Text,
+    'userProfileNotFound' : IDL.Text,
+    'adminOnly' : IDL.Text,
+    'internalError' : IDL.Text,
+    'badArguments' : IDL.Text,
+    'optimizationFailed' : IDL.Text,
+    'unauthorized' : IDL.Text,
+  });
+  const Result_1 = IDL.Variant({ 'ok' : LibraryExercise, 'err' : AppError });
+  const UserRole = IDL.Variant({
+    'admin' : IDL.Null,
+    'user' : IDL.Null,
+    'guest' : IDL.Null,
+  });
+  const Result_3 = IDL.Variant({ 'ok' : IDL.Null, 'err' : AppError });
+  const Result_24 = IDL.Variant({
+    'ok' : IDL.Vec(IDL.Tuple(IDL.Text, IDL.Nat)),
+    'err' : AppError,
+  });
+  const SetData = IDL.Record({ 'weight' : IDL.Float64, 'reps' : IDL.Nat });
   const WorkoutExercise = IDL.Record({
     'setData' : IDL.Vec(SetData),
     'suggestedWeight' : IDL.Float64,
@@ -153,16 +500,27 @@ export const idlFactory = ({ IDL }) => {
     'exercises' : IDL.Vec(WorkoutExercise),
     'timestamp' : IDL.Int,
   });
-  const AppError = IDL.Variant({
-    'userNotFound' : IDL.Text,
-    'userProfileNotFound' : IDL.Text,
-    'adminOnly' : IDL.Text,
-    'internalError' : IDL.Text,
-    'badArguments' : IDL.Text,
-    'optimizationFailed' : IDL.Text,
-    'unauthorized' : IDL.Text,
+  const Result_23 = IDL.Variant({ 'ok' : WorkoutWithNote, 'err' : AppError });
+  const GroupTarget = IDL.Record({
+    'limit' : IDL.Nat,
+    'muscleGroup' : IDL.Text,
+  });
+  const WorkoutSpec = IDL.Record({
+    'groups' : IDL.Vec(GroupTarget),
+    'equipmentFilter' : IDL.Vec(IDL.Text),
+    'name' : IDL.Text,
+    'maxExercises' : IDL.Nat,
+  });
+  const AlternativeExercise = IDL.Record({
+    'suggestedWeight' : IDL.Float64,
+    'reps' : IDL.Nat,
+    'exercise' : Exercise,
+    'reason' : IDL.Text,
+  });
+  const Result_22 = IDL.Variant({
+    'ok' : IDL.Vec(AlternativeExercise),
+    'err' : AppError,
   });
-  const Result_4 = IDL.Variant({ 'ok' : WorkoutWithNote, 'err' : AppError });
   const TrainingFrequency = IDL.Variant({
     'threeDays' : IDL.Null,
     'fiveDays' : IDL.Null,
@@ -174,6 +532,12 @@ export const idlFactory = ({ IDL }) => {
     'female' : IDL.Null,
     'male' : IDL.Null,
   });
+  const TrainingGoal = IDL.Variant({
+    'generalFitness' : IDL.Null,
+    'strength' : IDL.Null,
+    'endurance' : IDL.Null,
+    'hypertrophy' : IDL.Null,
+  });
   const UserProfile = IDL.Record({
     'bodyweight' : IDL.Float64,
     'muscleGroupRestInterval' : IDL.Int,
@@ -181,13 +545,35 @@ export const idlFactory = ({ IDL }) => {
     'weightUnit' : WeightUnit,
     'darkMode' : IDL.Bool,
     'gender' : Gender,
+    'trainingGoal' : TrainingGoal,
+    'availableEquipment' : IDL.Vec(IDL.Text),
     'restTime' : IDL.Int,
   });
-  const Result_1 = IDL.Variant({
+  const Result_12 = IDL.Variant({
     'ok' : IDL.Opt(UserProfile),
     'err' : AppError,
   });
+  const CustomExercise = IDL.Record({ 'id' : IDL.Nat, 'exercise' : Exercise });
+  const Result_21 = IDL.Variant({
+    'ok' : IDL.Vec(CustomExercise),
+    'err' : AppError,
+  });
+  const Result_20 = IDL.Variant({
+    'ok' : IDL.Vec(LibraryExercise),
+    'err' : AppError,
+  });
+  const Gym = IDL.Record({
+    'id' : IDL.Nat,
+    'equipment' : IDL.Vec(IDL.Text),
+    'name' : IDL.Text,
+  });
+  const GymSettings = IDL.Record({
+    'gyms' : IDL.Vec(Gym),
+    'defaultGymId' : IDL.Opt(IDL.Nat),
+  });
+  const Result_19 = IDL.Variant({ 'ok' : GymSettings, 'err' : AppError });
   const MuscleRecovery = IDL.Record({
+    'recoveryTime' : IDL.Int,
     'lastTrained' : IDL.Int,
     'recoveryPercentage' : IDL.Float64,
   });
@@ -198,10 +584,55 @@ export const idlFactory = ({ IDL }) => {
     'glutes' : MuscleRecovery,
     'calves' : MuscleRecovery,
   });
-  const Result_3 = IDL.Variant({
+  const Result_18 = IDL.Variant({
     'ok' : LegSubgroupRecovery,
     'err' : AppError,
   });
+  const LibraryCoverage = IDL.Record({
+    'generatorLimit' : IDL.Nat,
+    'deprecatedCount' : IDL.Nat,
+    'target' : IDL.Text,
+    'activeCount' : IDL.Nat,
+  });
+  const Result_17 = IDL.Variant({
+    'ok' : IDL.Vec(LibraryCoverage),
+    'err' : AppError,
+  });
+  const VolumeBucket = IDL.Variant({
+    'day' : IDL.Null,
+    'month' : IDL.Null,
+    'week' : IDL.Null,
+  });
+  const MuscleGroupVolume = IDL.Record({
+    'hardSets' : IDL.Nat,
+    'bucketStart' : IDL.Int,
+    'muscleGroup' : IDL.Text,
+    'tonnage' : IDL.Float64,
+  });
+  const Result_16 = IDL.Variant({
+    'ok' : IDL.Vec(MuscleGroupVolume),
+    'err' : AppError,
+  });
+  const ProgramWeek = IDL.Record({
+    'repOffset' : IDL.Int,
+    'week' : IDL.Nat,
+    'deload' : IDL.Bool,
+    'loadMultiplier' : IDL.Float64,
+    'setMultiplier' : IDL.Float64,
+  });
+  const Program = IDL.Record({
+    'startedAt' : IDL.Int,
+    'weeks' : IDL.Vec(ProgramWeek),
+  });
+  const ProgramProgress = IDL.Record({
+    'currentWeek' : IDL.Nat,
+    'finished' : IDL.Bool,
+    'program' : Program,
+  });
+  const Result_15 = IDL.Variant({
+    'ok' : IDL.Opt(ProgramProgress),
+    'err' : AppError,
+  });
   const RecoveryStateWithLegs = IDL.Record({
     'calvesRecovery' : MuscleRecovery,
     'quadsRecovery' : MuscleRecovery,
@@ -214,30 +645,181 @@ export const idlFactory = ({ IDL }) => {
     'legs' : MuscleRecovery,
     'glutesRecovery' : MuscleRecovery,
   });
-  const Result_2 = IDL.Variant({
+  const Result_14 = IDL.Variant({
     'ok' : RecoveryStateWithLegs,
     'err' : AppError,
   });
-  const Result = IDL.Variant({ 'ok' : IDL.Null, 'err' : AppError });
+  const SetConfiguration = IDL.Record({
+    'weight' : IDL.Float64,
+    'reps' : IDL.Nat,
+    'sets' : IDL.Nat,
+  });
+  const Result_13 = IDL.Variant({
+    'ok' : IDL.Vec(IDL.Tuple(IDL.Text, SetConfiguration)),
+    'err' : AppError,
+  });
+  const AnchorLift = IDL.Record({
+    'target' : IDL.Text,
+    'exerciseName' : IDL.Text,
+  });
+  const AnchorBlock = IDL.Record({
+    'blockStart' : IDL.Int,
+    'lifts' : IDL.Vec(AnchorLift),
+  });
+  const VarietySettings = IDL.Record({
+    'anchors' : AnchorBlock,
+    'pinnedExercises' : IDL.Vec(IDL.Text),
+    'repeatWindow' : IDL.Nat,
+  });
+  const Result_11 = IDL.Variant({ 'ok' : VarietySettings, 'err' : AppError });
+  const PlannedSession = IDL.Variant({
+    'pull' : IDL.Null,
+    'push' : IDL.Null,
+    'lowerBody' : IDL.Null,
+    'fullBody' : IDL.Null,
+    'upperBody' : IDL.Null,
+  });
+  const WeeklyPlan = IDL.Record({
+    'completedSessions' : IDL.Nat,
+    'startedAt' : IDL.Int,
+    'sessions' : IDL.Vec(PlannedSession),
+    'frequency' : TrainingFrequency,
+  });
+  const Result_10 = IDL.Variant({ 'ok' : WeeklyPlan, 'err' : AppError });
+  const Workout = IDL.Record({
+    'id' : IDL.Nat,
+    'clientId' : IDL.Opt(IDL.Text),
+    'totalVolume' : IDL.Float64,
+    'exercises' : IDL.Vec(WorkoutExercise),
+    'gymId' : IDL.Opt(IDL.Nat),
+    'timestamp' : IDL.Int,
+  });
+  const Result_9 = IDL.Variant({ 'ok' : IDL.Vec(Workout), 'err' : AppError });
+  const TemplateExercise = IDL.Record({
+    'reps' : IDL.Nat,
+    'sets' : IDL.Nat,
+    'exercise' : Exercise,
+    'targetWeight' : IDL.Float64,
+  });
+  const WorkoutTemplate = IDL.Record({
+    'id' : IDL.Nat,
+    'name' : IDL.Text,
+    'exercises' : IDL.Vec(TemplateExercise),
+    'updatedAt' : IDL.Int,
+  });
+  const Result_8 = IDL.Variant({
+    'ok' : IDL.Vec(WorkoutTemplate),
+    'err' : AppError,
+  });
+  const LibraryImportSummary = IDL.Record({
+    'added' : IDL.Nat,
+    'updated' : IDL.Nat,
+  });
+  const Result_7 = IDL.Variant({
+    'ok' : LibraryImportSummary,
+    'err' : AppError,
+  });
+  const Result_6 = IDL.Variant({ 'ok' : CustomExercise, 'err' : AppError });
+  const Result_5 = IDL.Variant({ 'ok' : Gym, 'err' : AppError });
+  const WorkoutInput = IDL.Record({
+    'clientId' : IDL.Text,
+    'totalVolume' : IDL.Float64,
+    'exercises' : IDL.Vec(WorkoutExercise),
+    'gymId' : IDL.Opt(IDL.Nat),
+    'timestamp' : IDL.Int,
+  });
+  const Result = IDL.Variant({ 'ok' : Workout, 'err' : AppError });
+  const Result_4 = IDL.Variant({ 'ok' : WorkoutTemplate, 'err' : AppError });
+  const Result_2 = IDL.Variant({ 'ok' : Program, 'err' : AppError });
   
   return IDL.Service({
+    'addLibraryExercise' : IDL.Func([Exercise], [Result_1], []),
     'assignCallerUserRole' : IDL.Func([IDL.Principal, UserRole], [], []),
-    'debugGetExerciseCounts' : IDL.Func(
+    'clearSetConfigurations' : IDL.Func([], [Result_3], []),
+    'debugGetExerciseCounts' : IDL.Func([], [Result_24], ['query']),
+    'deleteCustomExercise' : IDL.Func([IDL.Nat], [Result_3], []),
+    'deleteGym' : IDL.Func([IDL.Nat], [Result_3], []),
+    'deleteWorkout' : IDL.Func([IDL.Nat], [Result_3], []),
+    'deleteWorkoutTemplate' : IDL.Func([IDL.Nat], [Result_3], []),
+    'endProgram' : IDL.Func([], [Result_3], []),
+    'generateFullBodyWorkout' : IDL.Func([IDL.Opt(IDL.Nat)], [Result_23], []),
+    'generateLowerBodyWorkout' : IDL.Func([IDL.Opt(IDL.Nat)], [Result_23], []),
+    'generatePullWorkout' : IDL.Func([IDL.Opt(IDL.Nat)], [Result_23], []),
+    'generatePushWorkout' : IDL.Func([IDL.Opt(IDL.Nat)], [Result_23], []),
+    'generateUpperBodyWorkout' : IDL.Func([IDL.Opt(IDL.Nat)], [Result_23], []),
+    'generateWorkout' : IDL.Func(
+        [WorkoutSpec, IDL.Opt(IDL.Nat)],
+        [Result_23],
         [],
-        [IDL.Vec(IDL.Tuple(IDL.Text, IDL.Nat))],
+      ),
+    'getAlternativeExercises' : IDL.Func(
+        [
+          IDL.Text,
+          IDL.Text,
+          IDL.Vec(IDL.Text),
+          IDL.Opt(IDL.Text),
+          IDL.Opt(IDL.Nat),
+        ],
+        [Result_22],
         ['query'],
       ),
-    'generateFullBodyWorkout' : IDL.Func([], [Result_4], []),
-    'generateLowerBodyWorkout' : IDL.Func([], [Result_4], []),
-    'generateUpperBodyWorkout' : IDL.Func([], [Result_4], []),
-    'getCallerUserProfile' : IDL.Func([], [Result_1], ['query']),
+    'getCallerUserProfile' : IDL.Func([], [Result_12], ['query']),
     'getCallerUserRole' : IDL.Func([], [UserRole], ['query']),
-    'getLegSubgroupRecovery' : IDL.Func([], [Result_3], ['query']),
-    'getRecoveryState' : IDL.Func([], [Result_2], ['query']),
-    'getUserProfile' : IDL.Func([IDL.Principal], [Result_1], ['query']),
+    'getCustomExercises' : IDL.Func([], [Result_21], ['query']),
+    'getExerciseLibrary' : IDL.Func([], [Result_20], ['query']),
+    'getGymSettings' : IDL.Func([], [Result_19], ['query']),
+    'getLegSubgroupRecovery' : IDL.Func([], [Result_18], ['query']),
+    'getLibraryCoverage' : IDL.Func([], [Result_17], ['query']),
+    'getMuscleGroupVolume' : IDL.Func(
+        [IDL.Int, IDL.Int, VolumeBucket],
+        [Result_16],
+        ['query'],
+      ),
+    'getProgramProgress' : IDL.Func([], [Result_15], ['query']),
+    'getRecoveryState' : IDL.Func([], [Result_14], ['query']),
+    'getSetConfigurations' : IDL.Func([], [Result_13], ['query']),
+    'getUserProfile' : IDL.Func([IDL.Principal], [Result_12], ['query']),
+    'getVarietySettings' : IDL.Func([], [Result_11], ['query']),
+    'getWeeklyPlan' : IDL.Func([], [Result_10], ['query']),
+    'getWorkoutHistory' : IDL.Func([], [Result_9], ['query']),
+    'getWorkoutTemplates' : IDL.Func([], [Result_8], ['query']),
+    'importLibraryExercises' : IDL.Func([IDL.Vec(Exercise)], [Result_7], []),
     'initializeAccessControl' : IDL.Func([], [], []),
     'isCallerAdmin' : IDL.Func([], [IDL.Bool], ['query']),
-    'saveCallerUserProfile' : IDL.Func([UserProfile], [Result], []),
+    'recordExerciseChange' : IDL.Func([IDL.Text, IDL.Text], [Result_3], []),
+    'resetAnchorLifts' : IDL.Func([], [Result_3], []),
+    'saveCallerUserProfile' : IDL.Func([UserProfile], [Result_3], []),
+    'saveCustomExercise' : IDL.Func(
+        [IDL.Opt(IDL.Nat), Exercise],
+        [Result_6],
+        [],
+      ),
+    'saveGym' : IDL.Func(
+        [IDL.Opt(IDL.Nat), IDL.Text, IDL.Vec(IDL.Text)],
+        [Result_5],
+        [],
+      ),
+    'saveSetConfiguration' : IDL.Func(
+        [IDL.Text, SetConfiguration],
+        [Result_3],
+        [],
+      ),
+    'saveWorkout' : IDL.Func([WorkoutInput], [Result], []),
+    'saveWorkoutTemplate' : IDL.Func(
+        [IDL.Opt(IDL.Nat), IDL.Text, IDL.Vec(TemplateExercise)],
+        [Result_4],
+        [],
+      ),
+    'setDefaultGym' : IDL.Func([IDL.Nat], [Result_3], []),
+    'setExercisePinned' : IDL.Func([IDL.Text, IDL.Bool], [Result_3], []),
+    'setLibraryExerciseDeprecated' : IDL.Func(
+        [IDL.Nat, IDL.Bool],
+        [Result_3],
+        [],
+      ),
+    'startProgram' : IDL.Func([IDL.Nat], [Result_2], []),
+    'updateLibraryExercise' : IDL.Func([IDL.Nat, Exercise], [Result_1], []),
+    'updateWorkout' : IDL.Func([IDL.Nat, WorkoutInput], [Result], []),
   });
 };
 
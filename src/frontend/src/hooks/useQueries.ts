@@ -1,7 +1,13 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useEffect } from 'react';
+import { useQuery, useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query';
 import { useActor } from './useActor';
-import type { UserProfile, WeightUnit, Gender, TrainingFrequency, WorkoutWithNote as BackendWorkoutWithNote } from '../backend';
-import type { Exercise, WorkoutExercise, Workout, RecoveryState, SetConfiguration, MuscleGroupVolume, MuscleRecovery, LegSubgroupRecovery } from '../types';
+import { useInternetIdentity } from './useInternetIdentity';
+import type { UserProfile, WeightUnit, Gender, TrainingFrequency, TrainingGoal, WorkoutWithNote as BackendWorkoutWithNote, Workout as BackendWorkout, WorkoutInput as BackendWorkoutInput, WorkoutExercise as BackendWorkoutExercise, Exercise as BackendExercise, TemplateExercise as BackendTemplateExercise, WorkoutSpec, WeeklyPlan, ProgramProgress, GymSettings, VarietySettings } from '../backend';
+import type { Exercise, CustomExercise, LibraryExercise, TemplateExercise, WorkoutTemplate, LibraryCoverage, AlternativeExercise, WorkoutExercise, Workout, RecoveryState, SetConfiguration, MuscleGroupVolume, MuscleRecovery, LegSubgroupRecovery } from '../types';
+import { VolumeBucket } from '../backend';
+import { getWeekRange } from '../lib/timestampUtils';
+import { loadCachedHistory, loadCachedProfile, saveCachedHistory, saveCachedProfile } from '../lib/profileCache';
+import { applyProfileChanges, countOutboxWrites, discardOutboxWrite, enqueueOutboxWrite, flushOutbox, listFailedOutboxWrites, outboxRetryDelay, retryOutboxWrite, type OutboxActor, type OutboxEntry, type OutboxFlushResult, type OutboxReply, type OutboxWrite, type ProfileChanges } from '../lib/outbox';
 import { toast } from 'sonner';
 
 const DEFAULT_PROFILE: UserProfile = {
@@ -9,6 +15,8 @@ const DEFAULT_PROFILE: UserProfile = {
   bodyweight: 70,
   weightUnit: 'kg' as WeightUnit,
   trainingFrequency: 'fourDays' as TrainingFrequency,
+  trainingGoal: 'generalFitness' as TrainingGoal,
+  availableEquipment: [],
   darkMode: true,
   restTime: BigInt(90),
   muscleGroupRestInterval: BigInt(5),
@@ -163,33 +171,312 @@ function validateWorkout(backendWorkout: BackendWorkoutWithNote): boolean {
   return true;
 }
 
-// Helper function to convert backend WorkoutWithNote to frontend Workout
-function convertBackendWorkoutWithNote(backendWorkout: BackendWorkoutWithNote): Workout & { note?: string } {
+// Helper function to convert a backend Exercise to the frontend shape
+function convertBackendExercise(exercise: BackendExercise): Exercise {
   return {
-    exercises: backendWorkout.exercises.map(we => ({
-      exercise: {
-        name: we.exercise.name,
-        primaryMuscleGroup: we.exercise.primaryMuscleGroup,
-        equipmentType: we.exercise.equipmentType,
-        demoUrl: we.exercise.demoUrl,
-        recoveryTime: Number(we.exercise.recoveryTime),
-      },
-      sets: Number(we.sets),
-      reps: Number(we.reps),
+    name: exercise.name,
+    primaryMuscleGroup: exercise.primaryMuscleGroup,
+    secondaryMuscleGroups: exercise.secondaryMuscleGroups,
+    movementPattern: exercise.movementPattern,
+    compound: exercise.compound,
+    equipmentType: exercise.equipmentType,
+    demoUrl: exercise.demoUrl,
+    recoveryTime: Number(exercise.recoveryTime),
+  };
+}
+
+// Helper function to convert a backend WorkoutExercise to the frontend shape
+function convertBackendWorkoutExercise(we: BackendWorkoutExercise): WorkoutExercise {
+  return {
+    exercise: convertBackendExercise(we.exercise),
+    sets: Number(we.sets),
+    reps: Number(we.reps),
+    suggestedWeight: we.suggestedWeight,
+    setData: we.setData.map(sd => ({
+      weight: sd.weight,
+      reps: Number(sd.reps),
+    })),
+  };
+}
+
+// Helper function to convert backend WorkoutWithNote to frontend Workout; the session
+// that performs a generated workout assigns its clientId
+function convertBackendWorkoutWithNote(backendWorkout: BackendWorkoutWithNote): Omit<Workout, 'clientId'> & { note?: string } {
+  return {
+    exercises: backendWorkout.exercises.map(convertBackendWorkoutExercise),
+    timestamp: backendWorkout.timestamp,
+    totalVolume: backendWorkout.totalVolume,
+    note: backendWorkout.note || undefined,
+  };
+}
+
+// Helper function to convert a saved backend Workout to frontend Workout
+function convertBackendWorkout(backendWorkout: BackendWorkout): Workout {
+  return {
+    id: Number(backendWorkout.id),
+    clientId: backendWorkout.clientId ?? '',
+    exercises: backendWorkout.exercises.map(convertBackendWorkoutExercise),
+    timestamp: backendWorkout.timestamp,
+    totalVolume: backendWorkout.totalVolume,
+    gymId: backendWorkout.gymId !== undefined ? Number(backendWorkout.gymId) : undefined,
+  };
+}
+
+// Helper function to convert a frontend Exercise to the backend representation
+function toBackendExercise(exercise: Exercise): BackendExercise {
+  return {
+    name: exercise.name,
+    primaryMuscleGroup: exercise.primaryMuscleGroup,
+    // Sessions persisted before secondary groups existed won't carry the field
+    secondaryMuscleGroups: exercise.secondaryMuscleGroups ?? [],
+    movementPattern: exercise.movementPattern,
+    compound: exercise.compound,
+    equipmentType: exercise.equipmentType,
+    demoUrl: exercise.demoUrl,
+    recoveryTime: BigInt(exercise.recoveryTime),
+  };
+}
+
+// Helper function to convert a frontend TemplateExercise to the backend representation
+function toBackendTemplateExercise(te: TemplateExercise): BackendTemplateExercise {
+  return {
+    exercise: toBackendExercise(te.exercise),
+    sets: BigInt(te.sets),
+    reps: BigInt(te.reps),
+    targetWeight: te.targetWeight,
+  };
+}
+
+// Helper function to convert a frontend Workout to the backend input; the id is never sent
+function toBackendWorkout(workout: Workout): BackendWorkoutInput {
+  return {
+    // Updates keep the stored key and ignore this one
+    clientId: workout.clientId,
+    exercises: workout.exercises.map(we => ({
+      exercise: toBackendExercise(we.exercise),
+      sets: BigInt(we.sets),
+      reps: BigInt(we.reps),
       suggestedWeight: we.suggestedWeight,
       setData: we.setData.map(sd => ({
         weight: sd.weight,
-        reps: Number(sd.reps),
+        reps: BigInt(sd.reps),
       })),
     })),
-    timestamp: backendWorkout.timestamp,
-    totalVolume: backendWorkout.totalVolume,
-    note: backendWorkout.note || undefined,
+    timestamp: workout.timestamp,
+    totalVolume: workout.totalVolume,
+    gymId: workout.gymId !== undefined ? BigInt(workout.gymId) : undefined,
   };
 }
 
+const QUEUED_WRITE_MESSAGE = "Saved offline. It will sync when you're back online.";
+
+// Keys queued writes and cached data, so another user signing in on this device never sees them
+function useCallerPrincipal(): string | undefined {
+  const { identity } = useInternetIdentity();
+  return identity?.getPrincipal().toString();
+}
+
+// Every rejection reaches the user, whichever flush settled it. The caller that made a
+// write reports its own rejection, and the toast id stops overlapping flushes repeating one.
+function reportOutboxRejections(result: OutboxFlushResult, ownEntryId?: number) {
+  for (const { entry, message } of result.rejected) {
+    logWithTimestamp(`Queued ${entry.write.kind} was rejected:`, message);
+    if (entry.id === ownEntryId) continue;
+    toast.error(
+      entry.write.kind === 'saveWorkout'
+        ? `A workout couldn't be saved: ${message}. Retry or discard it from History.`
+        : `A queued change was rejected: ${message}`,
+      { id: `outbox-rejected-${entry.id}` }
+    );
+  }
+}
+
+function refreshAfterOutboxFlush(queryClient: QueryClient, result: OutboxFlushResult, ownEntryId?: number) {
+  reportOutboxRejections(result, ownEntryId);
+  queryClient.invalidateQueries({ queryKey: ['outboxPending'] });
+  queryClient.invalidateQueries({ queryKey: ['outboxFailed'] });
+  // Only replayed writes trigger refetches: while offline a profile refetch would fall back to defaults
+  const kinds = new Set(result.applied.map(({ entry }) => entry.write.kind));
+  if (kinds.has('saveWorkout')) {
+    invalidateHistoryQueries(queryClient);
+  }
+  if (kinds.has('saveProfile') || kinds.has('updateProfile')) {
+    queryClient.invalidateQueries({ queryKey: ['currentUserProfile'] });
+    queryClient.invalidateQueries({ queryKey: ['weeklyPlan'] });
+  }
+  if (kinds.has('saveSetConfiguration')) {
+    queryClient.invalidateQueries({ queryKey: ['setConfiguration'] });
+  }
+}
+
+/**
+ * Queues a write and replays the outbox straight away. Resolves with the canister's
+ * reply, or queued: true while the write waits for connectivity. Throws if the
+ * canister rejected the write.
+ */
+async function submitOutboxWrite(
+  queryClient: QueryClient,
+  actor: OutboxActor | null,
+  owner: string | undefined,
+  write: OutboxWrite,
+): Promise<{ queued: boolean; reply: OutboxReply }> {
+  if (!owner) throw new Error('Not logged in');
+
+  const id = await enqueueOutboxWrite(owner, write);
+  queryClient.invalidateQueries({ queryKey: ['outboxPending'] });
+  queryClient.invalidateQueries({ queryKey: ['outboxFailed'] });
+  if (!actor || !navigator.onLine) {
+    logWithTimestamp(`Queued ${write.kind} while offline`);
+    return { queued: true, reply: null };
+  }
+  return replayOwnWrite(queryClient, actor, owner, id);
+}
+
+async function replayOwnWrite(
+  queryClient: QueryClient,
+  actor: OutboxActor,
+  owner: string,
+  id: number,
+): Promise<{ queued: boolean; reply: OutboxReply }> {
+  const result = await flushOutbox(actor, owner);
+  refreshAfterOutboxFlush(queryClient, result, id);
+  const rejected = result.rejected.find(({ entry }) => entry.id === id);
+  if (rejected) throw new Error(rejected.message);
+  const applied = result.applied.find(({ entry }) => entry.id === id);
+  return applied ? { queued: false, reply: applied.reply } : { queued: true, reply: null };
+}
+
+export function useGetOutboxPendingCount() {
+  const principal = useCallerPrincipal();
+
+  return useQuery<number>({
+    queryKey: ['outboxPending', principal],
+    queryFn: () => (principal ? countOutboxWrites(principal) : 0),
+    enabled: !!principal,
+  });
+}
+
+// Workouts the canister rejected, kept until the user retries or discards them
+export function useGetFailedOutboxWrites() {
+  const principal = useCallerPrincipal();
+
+  return useQuery<OutboxEntry[]>({
+    queryKey: ['outboxFailed', principal],
+    queryFn: () => (principal ? listFailedOutboxWrites(principal) : []),
+    enabled: !!principal,
+  });
+}
+
+export function useRetryOutboxWrite() {
+  const { actor } = useActor();
+  const principal = useCallerPrincipal();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      if (!principal) throw new Error('Not logged in');
+
+      logWithTimestamp(`Retrying queued write ${id}`);
+
+      await retryOutboxWrite(id);
+      queryClient.invalidateQueries({ queryKey: ['outboxPending'] });
+      queryClient.invalidateQueries({ queryKey: ['outboxFailed'] });
+      if (!actor || !navigator.onLine) {
+        return { queued: true, reply: null };
+      }
+      return replayOwnWrite(queryClient, actor, principal, id);
+    },
+    onSuccess: ({ queued }) => {
+      if (queued) {
+        toast.info(QUEUED_WRITE_MESSAGE);
+      } else {
+        toast.success('Workout saved successfully');
+      }
+    },
+    onError: (error) => {
+      logWithTimestamp('Retried write failed:', error);
+      toast.error(`Still couldn't save the workout: ${error instanceof Error ? error.message : String(error)}`);
+    },
+  });
+}
+
+export function useDiscardOutboxWrite() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      logWithTimestamp(`Discarding queued write ${id}`);
+
+      await discardOutboxWrite(id);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['outboxPending'] });
+      queryClient.invalidateQueries({ queryKey: ['outboxFailed'] });
+    },
+    onError: (error) => {
+      logWithTimestamp('Failed to discard queued write:', error);
+      toast.error('Failed to discard the workout');
+    },
+  });
+}
+
+/**
+ * Replays queued writes in the background: once the actor is ready, whenever the
+ * browser comes back online, and on a doubling backoff while writes stay pending.
+ */
+export function useOutboxSync() {
+  const { actor, isFetching } = useActor();
+  const principal = useCallerPrincipal();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!actor || isFetching || !principal) return;
+
+    let cancelled = false;
+    let attempt = 0;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const sync = async () => {
+      clearTimeout(retryTimer);
+      let result: OutboxFlushResult;
+      try {
+        result = await flushOutbox(actor, principal);
+      } catch (error) {
+        logWithTimestamp('Outbox replay failed:', error);
+        return;
+      }
+      refreshAfterOutboxFlush(queryClient, result);
+      if (cancelled) return;
+
+      if (result.applied.length > 0) {
+        logWithTimestamp(`Synced ${result.applied.length} queued writes`);
+      }
+      if (result.pending > 0) {
+        retryTimer = setTimeout(sync, outboxRetryDelay(attempt++));
+      } else {
+        attempt = 0;
+      }
+    };
+
+    const handleOnline = () => {
+      attempt = 0;
+      sync();
+    };
+
+    window.addEventListener('online', handleOnline);
+    sync();
+
+    return () => {
+      cancelled = true;
+      clearTimeout(retryTimer);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [actor, isFetching, principal, queryClient]);
+}
+
 export function useGetCallerUserProfile() {
   const { actor, isFetching: actorFetching } = useActor();
+  const principal = useCallerPrincipal();
   const queryClient = useQueryClient();
 
   const query = useQuery<UserProfile | null>({
@@ -221,6 +508,7 @@ export function useGetCallerUserProfile() {
           }
           
           logWithTimestamp('Profile loaded successfully');
+          if (principal && profile) saveCachedProfile(principal, profile);
           return profile;
         } else {
           const errorMsg = extractErrorMessage(result.err);
@@ -234,6 +522,12 @@ export function useGetCallerUserProfile() {
         } else if (isDelegationExpiryError(error)) {
           toast.error('Session expired. Please log in again.');
         }
+        // Offline, the last known profile beats overwriting it with defaults
+        const cached = principal ? loadCachedProfile(principal) : undefined;
+        if (cached) {
+          logWithTimestamp('Using cached profile');
+          return cached;
+        }
         try {
           const saveResult = await actor.saveCallerUserProfile(DEFAULT_PROFILE);
           if (saveResult.__kind__ === 'ok') {
@@ -246,6 +540,8 @@ export function useGetCallerUserProfile() {
       }
     },
     enabled: !!actor && !actorFetching,
+    // Shown while the actor connects, or indefinitely when the app opens offline
+    placeholderData: () => (principal ? loadCachedProfile(principal) : undefined),
     retry: 2,
     retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 5000),
     staleTime: 30000,
@@ -253,32 +549,30 @@ export function useGetCallerUserProfile() {
 
   return {
     ...query,
-    isLoading: actorFetching || query.isLoading,
+    isLoading: (actorFetching || query.isLoading) && !query.isPlaceholderData,
     isFetched: !!actor && !actorFetching && query.isFetched,
   };
 }
 
 export function useSaveCallerUserProfile() {
   const { actor } = useActor();
+  const principal = useCallerPrincipal();
   const queryClient = useQueryClient();
 
   return useMutation({
     mutationFn: async (profile: UserProfile) => {
-      if (!actor) throw new Error('Actor not available');
-      
-      const result = await actor.saveCallerUserProfile(profile);
-      
-      if (result.__kind__ === 'ok') {
-        return result.ok;
+      const { queued } = await submitOutboxWrite(queryClient, actor, principal, { kind: 'saveProfile', profile });
+      return queued;
+    },
+    onSuccess: (queued, profile) => {
+      if (queued) {
+        queryClient.setQueryData(['currentUserProfile'], profile);
+        if (principal) saveCachedProfile(principal, profile);
+        toast.info(QUEUED_WRITE_MESSAGE);
       } else {
-        const errorMsg = extractErrorMessage(result.err);
-        throw new Error(errorMsg);
+        toast.success('Profile saved successfully');
       }
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['currentUserProfile'] });
-      toast.success('Profile saved successfully');
-    },
     onError: (error) => {
       logWithTimestamp('Profile save error:', error);
       const message = extractErrorMessage(error);
@@ -297,6 +591,7 @@ export function useSaveCallerUserProfile() {
 
 export function useUpdateProfile() {
   const { actor } = useActor();
+  const principal = useCallerPrincipal();
   const queryClient = useQueryClient();
 
   return useMutation({
@@ -309,42 +604,26 @@ export function useUpdateProfile() {
       weightUnit?: WeightUnit;
       muscleGroupRestInterval?: number;
     }) => {
-      if (!actor) throw new Error('Actor not available');
-      
-      const profileResult = await actor.getCallerUserProfile();
-      
-      if (profileResult.__kind__ === 'err') {
-        throw new Error(extractErrorMessage(profileResult.err));
-      }
-      
-      const currentProfile = profileResult.ok;
-      
-      if (currentProfile === null) {
-        throw new Error('Profile not found');
-      }
-      
-      const updatedProfile: UserProfile = {
-        gender: currentProfile.gender,
-        bodyweight: bodyweight !== undefined ? bodyweight : currentProfile.bodyweight,
-        weightUnit: weightUnit !== undefined ? weightUnit : currentProfile.weightUnit,
-        trainingFrequency: currentProfile.trainingFrequency,
-        darkMode: currentProfile.darkMode,
-        restTime: currentProfile.restTime,
-        muscleGroupRestInterval: muscleGroupRestInterval !== undefined ? BigInt(muscleGroupRestInterval) : currentProfile.muscleGroupRestInterval,
+      // A patch rather than a full profile, so it applies over whatever the canister holds at replay
+      const changes: ProfileChanges = {
+        bodyweight,
+        weightUnit,
+        muscleGroupRestInterval: muscleGroupRestInterval !== undefined ? BigInt(muscleGroupRestInterval) : undefined,
       };
-      
-      const saveResult = await actor.saveCallerUserProfile(updatedProfile);
-      
-      if (saveResult.__kind__ === 'ok') {
-        return true;
+      const { queued } = await submitOutboxWrite(queryClient, actor, principal, { kind: 'updateProfile', changes });
+      return { queued, changes };
+    },
+    onSuccess: ({ queued, changes }) => {
+      if (queued) {
+        const profile = queryClient.setQueryData<UserProfile | null>(['currentUserProfile'], (current) =>
+          current ? applyProfileChanges(current, changes) : current,
+        );
+        if (principal && profile) saveCachedProfile(principal, profile);
+        toast.info(QUEUED_WRITE_MESSAGE);
       } else {
-        throw new Error(extractErrorMessage(saveResult.err));
+        toast.success('Profile updated successfully');
       }
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['currentUserProfile'] });
-      toast.success('Profile updated successfully');
-    },
     onError: (error) => {
       logWithTimestamp('Profile update error:', error);
       const message = extractErrorMessage(error);
@@ -361,17 +640,42 @@ export function useUpdateProfile() {
   });
 }
 
-export function useGetAlternativeExercises(muscleGroup: string) {
+export function useGetAlternativeExercises(
+  muscleGroup: string,
+  replacing: string,
+  excludeNames: string[],
+  equipmentFilter: string | null,
+  gymId?: number
+) {
   const { actor, isFetching } = useActor();
 
-  return useQuery<Exercise[]>({
-    queryKey: ['alternativeExercises', muscleGroup],
-    queryFn: async (): Promise<Exercise[]> => {
+  return useQuery<AlternativeExercise[]>({
+    queryKey: ['alternativeExercises', muscleGroup, replacing, excludeNames, equipmentFilter, gymId ?? null],
+    queryFn: async (): Promise<AlternativeExercise[]> => {
       if (!actor) return [];
       
-      logWithTimestamp(`Alternative exercises not implemented in backend for ${muscleGroup}`);
-      // Backend method not implemented yet
-      return [];
+      logWithTimestamp(`Fetching alternative exercises for ${replacing} (${muscleGroup})`, { excludeNames, equipmentFilter });
+      
+      const result = await actor.getAlternativeExercises(
+        muscleGroup,
+        replacing,
+        excludeNames,
+        equipmentFilter,
+        toGymArg(gymId)
+      );
+      
+      if (result.__kind__ === 'ok') {
+        return result.ok.map(alt => ({
+          exercise: convertBackendExercise(alt.exercise),
+          reason: alt.reason,
+          suggestedWeight: alt.suggestedWeight,
+          reps: Number(alt.reps),
+        }));
+      } else {
+        const errorMsg = extractErrorMessage(result.err);
+        logWithTimestamp('Failed to fetch alternative exercises:', errorMsg);
+        throw new Error(errorMsg);
+      }
     },
     enabled: !!actor && !isFetching && !!muscleGroup,
     staleTime: 300000,
@@ -381,149 +685,89 @@ export function useGetAlternativeExercises(muscleGroup: string) {
 
 export function useRecordExerciseChange() {
   const { actor } = useActor();
-
-  return useMutation({
-    mutationFn: async ({ originalExercise, alternativeExercise }: { originalExercise: string; alternativeExercise: string }) => {
-      if (!actor) throw new Error('Actor not available');
-      logWithTimestamp('recordExerciseChange not implemented in backend');
-      return;
-    },
-    onError: (error) => {
-      logWithTimestamp('Failed to record exercise change:', error);
-    },
-  });
-}
-
-export type WorkoutType = 'fullBody' | 'upperBody' | 'lowerBody' | 'lowerBodyWithCore';
-
-export function useGenerateWorkout() {
-  const generateFullBody = useGenerateFullBodyWorkout();
-  const generateUpperBody = useGenerateUpperBodyWorkout();
-  const generateLowerBody = useGenerateLowerBodyWorkout();
-
-  return useMutation({
-    mutationFn: async (workoutType: WorkoutType) => {
-      if (workoutType === 'fullBody') {
-        return await generateFullBody.mutateAsync();
-      } else if (workoutType === 'upperBody') {
-        return await generateUpperBody.mutateAsync();
-      } else {
-        // Both lowerBody and lowerBodyWithCore use the same unified generator
-        return await generateLowerBody.mutateAsync();
-      }
-    },
-  });
-}
-
-export function useGenerateFullBodyWorkout() {
-  const { actor } = useActor();
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async () => {
+    mutationFn: async ({ originalExercise, alternativeExercise }: { originalExercise: string; alternativeExercise: string }) => {
       if (!actor) throw new Error('Actor not available');
+      logWithTimestamp(`Recording exercise change: ${originalExercise} -> ${alternativeExercise}`);
       
-      logWithTimestamp('Generating full body workout');
-      
-      const result = await actor.generateFullBodyWorkout();
+      const result = await actor.recordExerciseChange(originalExercise, alternativeExercise);
       
       if (result.__kind__ === 'ok') {
-        const backendWorkout = result.ok;
-        
-        if (!validateWorkout(backendWorkout)) {
-          throw new Error('Generated workout failed validation');
-        }
-        
-        const workout = convertBackendWorkoutWithNote(backendWorkout);
-        logWithTimestamp('Full body workout generated successfully');
-        return workout;
+        return result.ok;
       } else {
-        const errorMsg = extractErrorMessage(result.err);
-        logWithTimestamp('Full body workout generation failed:', errorMsg);
-        throw new Error(errorMsg);
+        throw new Error(extractErrorMessage(result.err));
       }
     },
-    onSuccess: (workout) => {
-      queryClient.setQueryData(['currentWorkout'], workout);
-      queryClient.invalidateQueries({ queryKey: ['recoveryState'] });
-      logWithTimestamp('Full body workout generated successfully');
+    onSuccess: () => {
+      // Swapping out an anchor lift makes the replacement the new anchor.
+      queryClient.invalidateQueries({ queryKey: ['varietySettings'] });
     },
     onError: (error) => {
-      logWithTimestamp('Full body workout generation error:', error);
-      const message = extractErrorMessage(error);
-      if (isOptimizationError(error)) {
-        toast.error(message, { duration: 5000 });
-      } else if (isAuthError(error)) {
-        toast.error('Authentication required. Please log in again.');
-      } else if (isDelegationExpiryError(error)) {
-        toast.error('Session expired. Please log in again.');
-      } else {
-        toast.error('Failed to generate workout');
-      }
+      logWithTimestamp('Failed to record exercise change:', error);
     },
   });
 }
 
-export function useGenerateUpperBodyWorkout() {
-  const { actor } = useActor();
-  const queryClient = useQueryClient();
+export type WorkoutType = 'fullBody' | 'upperBody' | 'lowerBody' | 'lowerBodyWithCore' | 'push' | 'pull' | 'custom';
 
-  return useMutation({
-    mutationFn: async () => {
-      if (!actor) throw new Error('Actor not available');
-      
-      logWithTimestamp('Generating upper body workout');
-      
-      const result = await actor.generateLowerBodyWorkout();
-      
-      if (result.__kind__ === 'ok') {
-        const backendWorkout = result.ok;
-        
-        if (!validateWorkout(backendWorkout)) {
-          throw new Error('Generated workout failed validation');
-        }
-        
-        const workout = convertBackendWorkoutWithNote(backendWorkout);
-        logWithTimestamp('Upper body workout generated successfully');
-        return workout;
-      } else {
-        const errorMsg = extractErrorMessage(result.err);
-        logWithTimestamp('Upper body workout generation failed:', errorMsg);
-        throw new Error(errorMsg);
-      }
-    },
-    onSuccess: (workout) => {
-      queryClient.setQueryData(['currentWorkout'], workout);
-      queryClient.invalidateQueries({ queryKey: ['recoveryState'] });
-      logWithTimestamp('Upper body workout generated successfully');
-    },
-    onError: (error) => {
-      logWithTimestamp('Upper body workout generation error:', error);
-      const message = extractErrorMessage(error);
-      if (isOptimizationError(error)) {
-        toast.error(message, { duration: 5000 });
-      } else if (isAuthError(error)) {
-        toast.error('Authentication required. Please log in again.');
-      } else if (isDelegationExpiryError(error)) {
-        toast.error('Session expired. Please log in again.');
-      } else {
-        toast.error('Failed to generate workout');
+export interface WorkoutRequest {
+  workoutType: WorkoutType;
+  // Required for 'custom'; the presets are defined by the backend.
+  spec?: WorkoutSpec;
+  // Omitted means the default gym, or the profile's equipment when there are no gyms.
+  gymId?: number;
+}
+
+function toGymArg(gymId?: number): bigint | null {
+  return gymId !== undefined ? BigInt(gymId) : null;
+}
+
+export function useGenerateWorkout() {
+  return useGeneratorMutation<WorkoutRequest>(
+    ({ workoutType }) => workoutType,
+    (actor, { workoutType, spec, gymId }) => {
+      const gym = toGymArg(gymId);
+      switch (workoutType) {
+        case 'fullBody':
+          return actor.generateFullBodyWorkout(gym);
+        case 'upperBody':
+          return actor.generateUpperBodyWorkout(gym);
+        case 'push':
+          return actor.generatePushWorkout(gym);
+        case 'pull':
+          return actor.generatePullWorkout(gym);
+        case 'custom':
+          if (!spec) throw new Error('Custom split has no muscle groups selected');
+          return actor.generateWorkout(spec, gym);
+        default:
+          // Both lowerBody and lowerBodyWithCore use the same unified generator
+          return actor.generateLowerBodyWorkout(gym);
       }
-    },
-  });
+    }
+  );
 }
 
-export function useGenerateLowerBodyWorkout() {
+type GeneratorActor = NonNullable<ReturnType<typeof useActor>['actor']>;
+type GeneratorResult = Awaited<ReturnType<GeneratorActor['generateWorkout']>>;
+
+// Shared mutation for every generator endpoint; they all return the same
+// Result<WorkoutWithNote> and differ only in which spec the backend uses.
+function useGeneratorMutation<TArgs>(
+  describe: (args: TArgs) => string,
+  generate: (actor: GeneratorActor, args: TArgs) => Promise<GeneratorResult>
+) {
   const { actor } = useActor();
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async () => {
+    mutationFn: async (args: TArgs) => {
       if (!actor) throw new Error('Actor not available');
       
-      logWithTimestamp('Generating lower body workout');
+      logWithTimestamp(`Generating ${describe(args)} workout`);
       
-      const result = await actor.generateLowerBodyWorkout();
+      const result = await generate(actor, args);
       
       if (result.__kind__ === 'ok') {
         const backendWorkout = result.ok;
@@ -532,22 +776,21 @@ export function useGenerateLowerBodyWorkout() {
           throw new Error('Generated workout failed validation');
         }
         
-        const workout = convertBackendWorkoutWithNote(backendWorkout);
-        logWithTimestamp('Lower body workout generated successfully');
-        return workout;
+        return convertBackendWorkoutWithNote(backendWorkout);
       } else {
         const errorMsg = extractErrorMessage(result.err);
-        logWithTimestamp('Lower body workout generation failed:', errorMsg);
+        logWithTimestamp(`${describe(args)} workout generation failed:`, errorMsg);
         throw new Error(errorMsg);
       }
     },
-    onSuccess: (workout) => {
+    onSuccess: (workout, args) => {
       queryClient.setQueryData(['currentWorkout'], workout);
       queryClient.invalidateQueries({ queryKey: ['recoveryState'] });
-      logWithTimestamp('Lower body workout generated successfully');
+      queryClient.invalidateQueries({ queryKey: ['varietySettings'] });
+      logWithTimestamp(`${describe(args)} workout generated successfully`);
     },
-    onError: (error) => {
-      logWithTimestamp('Lower body workout generation error:', error);
+    onError: (error, args) => {
+      logWithTimestamp(`${describe(args)} workout generation error:`, error);
       const message = extractErrorMessage(error);
       if (isOptimizationError(error)) {
         toast.error(message, { duration: 5000 });
@@ -696,8 +939,23 @@ export function useGetSetConfiguration(exerciseName?: string) {
     queryFn: async (): Promise<Record<string, SetConfiguration>> => {
       if (!actor) return {};
       
-      logWithTimestamp('getSetConfiguration not implemented in backend');
-      return {};
+      logWithTimestamp('Fetching set configurations', exerciseName ?? 'all exercises');
+      
+      const result = await actor.getSetConfigurations();
+      
+      if (result.__kind__ === 'ok') {
+        const configs: Record<string, SetConfiguration> = {};
+        for (const [name, config] of result.ok) {
+          if (!exerciseName || name === exerciseName) {
+            configs[name] = config;
+          }
+        }
+        return configs;
+      } else {
+        const errorMsg = extractErrorMessage(result.err);
+        logWithTimestamp('Failed to fetch set configurations:', errorMsg);
+        throw new Error(errorMsg);
+      }
     },
     enabled: !!actor && !isFetching,
     staleTime: 60000,
@@ -723,69 +981,290 @@ export function useUpdateSuggestedWeightDuringSession() {
 
 export function useGetWorkoutHistory() {
   const { actor, isFetching } = useActor();
+  const principal = useCallerPrincipal();
 
   return useQuery<Workout[]>({
-    queryKey: ['workoutHistory'],
+    queryKey: ['workoutHistory', principal],
     queryFn: async (): Promise<Workout[]> => {
       if (!actor) return [];
       
-      logWithTimestamp('getWorkoutHistory not implemented in backend');
-      // Backend method not implemented yet
-      return [];
+      logWithTimestamp('Fetching workout history');
+      
+      let result: Awaited<ReturnType<typeof actor.getWorkoutHistory>>;
+      try {
+        result = await actor.getWorkoutHistory();
+      } catch (error) {
+        const cached = principal ? loadCachedHistory(principal) : undefined;
+        if (!cached) throw error;
+        logWithTimestamp('Workout history unavailable, using cached copy:', error);
+        return cached;
+      }
+      
+      if (result.__kind__ === 'ok') {
+        logWithTimestamp(`Workout history loaded: ${result.ok.length} workouts`);
+        const history = result.ok.map(convertBackendWorkout);
+        if (principal) saveCachedHistory(principal, history);
+        return history;
+      } else {
+        const errorMsg = extractErrorMessage(result.err);
+        logWithTimestamp('Failed to fetch workout history:', errorMsg);
+        throw new Error(errorMsg);
+      }
     },
     enabled: !!actor && !isFetching,
+    placeholderData: () => (principal ? loadCachedHistory(principal) : undefined),
     staleTime: 60000,
     retry: 1,
   });
 }
 
-export function useSaveWorkout() {
-  const { actor } = useActor();
-  const queryClient = useQueryClient();
+export function useGetWeeklyPlan() {
+  const { actor, isFetching } = useActor();
 
-  return useMutation({
-    mutationFn: async (workout: Workout) => {
-      if (!actor) throw new Error('Actor not available');
+  return useQuery<WeeklyPlan | null>({
+    queryKey: ['weeklyPlan'],
+    queryFn: async (): Promise<WeeklyPlan | null> => {
+      if (!actor) return null;
       
-      logWithTimestamp('saveWorkout not implemented in backend');
-      // Backend method not implemented yet
-      return;
+      const result = await actor.getWeeklyPlan();
+      
+      if (result.__kind__ === 'ok') {
+        return result.ok;
+      } else {
+        const errorMsg = extractErrorMessage(result.err);
+        logWithTimestamp('Failed to fetch weekly plan:', errorMsg);
+        throw new Error(errorMsg);
+      }
+    },
+    enabled: !!actor && !isFetching,
+    staleTime: 60000,
+    retry: 1,
+  });
+}
+
+export function useGetGymSettings() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<GymSettings>({
+    queryKey: ['gymSettings'],
+    queryFn: async (): Promise<GymSettings> => {
+      if (!actor) return { gyms: [], defaultGymId: undefined };
+      
+      const result = await actor.getGymSettings();
+      
+      if (result.__kind__ === 'ok') {
+        return result.ok;
+      } else {
+        const errorMsg = extractErrorMessage(result.err);
+        logWithTimestamp('Failed to fetch gyms:', errorMsg);
+        throw new Error(errorMsg);
+      }
+    },
+    enabled: !!actor && !isFetching,
+    staleTime: 300000,
+    retry: 1,
+  });
+}
+
+export function useSaveGym() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, name, equipment }: { id?: number; name: string; equipment: string[] }) => {
+      if (!actor) throw new Error('Actor not available');
+      
+      const result = await actor.saveGym(toGymArg(id), name, equipment);
+      
+      if (result.__kind__ === 'ok') {
+        return result.ok;
+      } else {
+        throw new Error(extractErrorMessage(result.err));
+      }
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['workoutHistory'] });
-      queryClient.invalidateQueries({ queryKey: ['recoveryState'] });
-      queryClient.invalidateQueries({ queryKey: ['legSubgroupRecovery'] });
-      toast.success('Workout saved successfully');
+      queryClient.invalidateQueries({ queryKey: ['gymSettings'] });
     },
     onError: (error) => {
-      logWithTimestamp('Failed to save workout:', error);
-      toast.error('Failed to save workout');
+      logWithTimestamp('Gym save error:', error);
+      toast.error(`Failed to save gym: ${extractErrorMessage(error)}`);
     },
   });
 }
 
-export function useSaveSetConfiguration() {
+export function useDeleteGym() {
   const { actor } = useActor();
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async ({ exerciseName, config }: { exerciseName: string; config: SetConfiguration }) => {
+    mutationFn: async (id: number) => {
       if (!actor) throw new Error('Actor not available');
       
-      logWithTimestamp('saveSetConfiguration not implemented in backend');
-      // Backend method not implemented yet
-      return;
+      const result = await actor.deleteGym(BigInt(id));
+      
+      if (result.__kind__ === 'err') {
+        throw new Error(extractErrorMessage(result.err));
+      }
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['setConfiguration'] });
+      queryClient.invalidateQueries({ queryKey: ['gymSettings'] });
     },
     onError: (error) => {
-      logWithTimestamp('Failed to save set configuration:', error);
+      logWithTimestamp('Gym delete error:', error);
+      toast.error('Failed to delete gym');
+    },
+  });
+}
+
+export function useSetDefaultGym() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      if (!actor) throw new Error('Actor not available');
+      
+      const result = await actor.setDefaultGym(BigInt(id));
+      
+      if (result.__kind__ === 'err') {
+        throw new Error(extractErrorMessage(result.err));
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['gymSettings'] });
+    },
+    onError: (error) => {
+      logWithTimestamp('Default gym error:', error);
+      toast.error('Failed to set default gym');
+    },
+  });
+}
+
+export function useGetVarietySettings() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<VarietySettings | null>({
+    queryKey: ['varietySettings'],
+    queryFn: async (): Promise<VarietySettings | null> => {
+      if (!actor) return null;
+      
+      const result = await actor.getVarietySettings();
+      
+      if (result.__kind__ === 'ok') {
+        return result.ok;
+      } else {
+        const errorMsg = extractErrorMessage(result.err);
+        logWithTimestamp('Failed to fetch variety settings:', errorMsg);
+        throw new Error(errorMsg);
+      }
+    },
+    enabled: !!actor && !isFetching,
+    staleTime: 300000,
+    retry: 1,
+  });
+}
+
+export function useSetExercisePinned() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ exerciseName, pinned }: { exerciseName: string; pinned: boolean }) => {
+      if (!actor) throw new Error('Actor not available');
+      
+      const result = await actor.setExercisePinned(exerciseName, pinned);
+      
+      if (result.__kind__ === 'err') {
+        throw new Error(extractErrorMessage(result.err));
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['varietySettings'] });
+    },
+    onError: (error) => {
+      logWithTimestamp('Exercise pin error:', error);
+      toast.error(`Failed to update pinned exercise: ${extractErrorMessage(error)}`);
+    },
+  });
+}
+
+export function useResetAnchorLifts() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      if (!actor) throw new Error('Actor not available');
+      
+      const result = await actor.resetAnchorLifts();
+      
+      if (result.__kind__ === 'err') {
+        throw new Error(extractErrorMessage(result.err));
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['varietySettings'] });
+      toast.success('New anchor lifts will be picked next workout');
+    },
+    onError: (error) => {
+      logWithTimestamp('Anchor reset error:', error);
+      toast.error('Failed to reset anchor lifts');
+    },
+  });
+}
+
+export function useGetProgramProgress() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<ProgramProgress | null>({
+    queryKey: ['programProgress'],
+    queryFn: async (): Promise<ProgramProgress | null> => {
+      if (!actor) return null;
+      
+      const result = await actor.getProgramProgress();
+      
+      if (result.__kind__ === 'ok') {
+        return result.ok;
+      } else {
+        const errorMsg = extractErrorMessage(result.err);
+        logWithTimestamp('Failed to fetch program progress:', errorMsg);
+        throw new Error(errorMsg);
+      }
+    },
+    enabled: !!actor && !isFetching,
+    staleTime: 60000,
+    retry: 1,
+  });
+}
+
+export function useStartProgram() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (weekCount: number) => {
+      if (!actor) throw new Error('Actor not available');
+      
+      const result = await actor.startProgram(BigInt(weekCount));
+      
+      if (result.__kind__ === 'ok') {
+        return result.ok;
+      } else {
+        throw new Error(extractErrorMessage(result.err));
+      }
+    },
+    onSuccess: (_, weekCount) => {
+      queryClient.invalidateQueries({ queryKey: ['programProgress'] });
+      toast.success(`${weekCount}-week program started`);
+    },
+    onError: (error) => {
+      logWithTimestamp('Program start error:', error);
+      toast.error(`Failed to start program: ${extractErrorMessage(error)}`);
     },
   });
 }
 
-export function useClearSetConfigurations() {
+export function useEndProgram() {
   const { actor } = useActor();
   const queryClient = useQueryClient();
 
@@ -793,33 +1272,499 @@ export function useClearSetConfigurations() {
     mutationFn: async () => {
       if (!actor) throw new Error('Actor not available');
       
-      logWithTimestamp('clearSetConfigurations not implemented in backend');
-      // Backend method not implemented yet
-      return;
+      const result = await actor.endProgram();
+      
+      if (result.__kind__ === 'err') {
+        throw new Error(extractErrorMessage(result.err));
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['programProgress'] });
+    },
+    onError: (error) => {
+      logWithTimestamp('Program end error:', error);
+      toast.error('Failed to end program');
+    },
+  });
+}
+
+// Everything derived from workout history: recovery, volume and plan progress.
+function invalidateHistoryQueries(queryClient: QueryClient) {
+  queryClient.invalidateQueries({ queryKey: ['workoutHistory'] });
+  queryClient.invalidateQueries({ queryKey: ['recoveryState'] });
+  queryClient.invalidateQueries({ queryKey: ['legSubgroupRecovery'] });
+  queryClient.invalidateQueries({ queryKey: ['muscleGroupVolume'] });
+  queryClient.invalidateQueries({ queryKey: ['weeklyPlan'] });
+}
+
+// Resolves with the stored workout, or null when it was queued to sync later
+export function useSaveWorkout() {
+  const { actor } = useActor();
+  const principal = useCallerPrincipal();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (workout: Workout): Promise<Workout | null> => {
+      logWithTimestamp(`Saving workout with ${workout.exercises.length} exercises`);
+      
+      const { queued, reply } = await submitOutboxWrite(queryClient, actor, principal, {
+        kind: 'saveWorkout',
+        workout: toBackendWorkout(workout),
+      });
+      return queued ? null : convertBackendWorkout(reply as BackendWorkout);
+    },
+    onSuccess: (saved) => {
+      if (saved) {
+        toast.success('Workout saved successfully');
+      } else {
+        toast.info(QUEUED_WRITE_MESSAGE);
+      }
+    },
+    onError: (error) => {
+      logWithTimestamp('Failed to save workout:', error);
+      if (isAuthError(error)) {
+        toast.error('Authentication required. Please log in again.');
+      } else if (isDelegationExpiryError(error)) {
+        toast.error('Session expired. Please log in again.');
+      } else {
+        toast.error('Failed to save workout');
+      }
+    },
+  });
+}
+
+export function useUpdateWorkout() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, workout }: { id: number; workout: Workout }) => {
+      if (!actor) throw new Error('Actor not available');
+      
+      logWithTimestamp(`Updating workout ${id}`);
+      
+      const result = await actor.updateWorkout(BigInt(id), toBackendWorkout(workout));
+      
+      if (result.__kind__ === 'ok') {
+        return convertBackendWorkout(result.ok);
+      } else {
+        throw new Error(extractErrorMessage(result.err));
+      }
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['setConfiguration'] });
+      invalidateHistoryQueries(queryClient);
+      toast.success('Workout updated');
+    },
+    onError: (error) => {
+      logWithTimestamp('Failed to update workout:', error);
+      toast.error(`Failed to update workout: ${extractErrorMessage(error)}`);
+    },
+  });
+}
+
+export function useDeleteWorkout() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      if (!actor) throw new Error('Actor not available');
+      
+      logWithTimestamp(`Deleting workout ${id}`);
+      
+      const result = await actor.deleteWorkout(BigInt(id));
+      
+      if (result.__kind__ === 'err') {
+        throw new Error(extractErrorMessage(result.err));
+      }
+    },
+    onSuccess: () => {
+      invalidateHistoryQueries(queryClient);
+      toast.success('Workout deleted');
+    },
+    onError: (error) => {
+      logWithTimestamp('Failed to delete workout:', error);
+      toast.error('Failed to delete workout');
+    },
+  });
+}
+
+export function useSaveSetConfiguration() {
+  const { actor } = useActor();
+  const principal = useCallerPrincipal();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ exerciseName, config }: { exerciseName: string; config: SetConfiguration }) => {
+      logWithTimestamp(`Saving set configuration for ${exerciseName}`);
+      
+      await submitOutboxWrite(queryClient, actor, principal, { kind: 'saveSetConfiguration', exerciseName, config });
     },
     onError: (error) => {
-      logWithTimestamp('Failed to clear set configurations:', error);
+      logWithTimestamp('Failed to save set configuration:', error);
     },
   });
 }
 
-export function useGetWeeklyMuscleGroupVolume() {
+// Range bounds are milliseconds so the query key stays free of bigint values
+export function useGetMuscleGroupVolume(fromMs: number, toMs: number, bucket: VolumeBucket) {
   const { actor, isFetching } = useActor();
 
   return useQuery<MuscleGroupVolume[]>({
-    queryKey: ['weeklyMuscleGroupVolume'],
+    queryKey: ['muscleGroupVolume', fromMs, toMs, bucket],
     queryFn: async (): Promise<MuscleGroupVolume[]> => {
       if (!actor) return [];
       
-      logWithTimestamp('getWeeklyMuscleGroupVolume not implemented in backend');
-      // Backend method not implemented yet
-      return [];
+      logWithTimestamp(`Fetching ${bucket} muscle group volume`, { from: new Date(fromMs), to: new Date(toMs) });
+      
+      const result = await actor.getMuscleGroupVolume(
+        BigInt(fromMs) * 1_000_000n,
+        BigInt(toMs) * 1_000_000n,
+        bucket
+      );
+      
+      if (result.__kind__ === 'ok') {
+        return result.ok.map(v => ({
+          muscleGroup: v.muscleGroup,
+          bucketStart: v.bucketStart,
+          tonnage: v.tonnage,
+          hardSets: Number(v.hardSets),
+        }));
+      } else {
+        const errorMsg = extractErrorMessage(result.err);
+        logWithTimestamp('Failed to fetch muscle group volume:', errorMsg);
+        throw new Error(errorMsg);
+      }
     },
     enabled: !!actor && !isFetching,
     staleTime: 60000,
     retry: 1,
   });
 }
+
+export function useGetWeeklyMuscleGroupVolume(weekOffset = 0) {
+  const { start, end } = getWeekRange(weekOffset);
+  return useGetMuscleGroupVolume(start.getTime(), end.getTime(), VolumeBucket.week);
+}
+
+export function useGetCustomExercises() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<CustomExercise[]>({
+    queryKey: ['customExercises'],
+    queryFn: async (): Promise<CustomExercise[]> => {
+      if (!actor) return [];
+      
+      const result = await actor.getCustomExercises();
+      
+      if (result.__kind__ === 'ok') {
+        return result.ok.map((ce) => ({ id: Number(ce.id), exercise: convertBackendExercise(ce.exercise) }));
+      } else {
+        const errorMsg = extractErrorMessage(result.err);
+        logWithTimestamp('Failed to fetch custom exercises:', errorMsg);
+        throw new Error(errorMsg);
+      }
+    },
+    enabled: !!actor && !isFetching,
+    staleTime: 300000,
+    retry: 1,
+  });
+}
+
+export function useSaveCustomExercise() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, exercise }: { id?: number; exercise: Exercise }) => {
+      if (!actor) throw new Error('Actor not available');
+      
+      const result = await actor.saveCustomExercise(id !== undefined ? BigInt(id) : null, toBackendExercise(exercise));
+      
+      if (result.__kind__ === 'ok') {
+        return result.ok;
+      } else {
+        throw new Error(extractErrorMessage(result.err));
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['customExercises'] });
+      queryClient.invalidateQueries({ queryKey: ['alternativeExercises'] });
+      toast.success('Exercise saved');
+    },
+    onError: (error) => {
+      logWithTimestamp('Custom exercise save error:', error);
+      toast.error(`Failed to save exercise: ${extractErrorMessage(error)}`);
+    },
+  });
+}
+
+export function useDeleteCustomExercise() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      if (!actor) throw new Error('Actor not available');
+      
+      const result = await actor.deleteCustomExercise(BigInt(id));
+      
+      if (result.__kind__ === 'err') {
+        throw new Error(extractErrorMessage(result.err));
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['customExercises'] });
+      queryClient.invalidateQueries({ queryKey: ['alternativeExercises'] });
+    },
+    onError: (error) => {
+      logWithTimestamp('Custom exercise delete error:', error);
+      toast.error('Failed to delete exercise');
+    },
+  });
+}
+
+export function useGetWorkoutTemplates() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<WorkoutTemplate[]>({
+    queryKey: ['workoutTemplates'],
+    queryFn: async (): Promise<WorkoutTemplate[]> => {
+      if (!actor) return [];
+      
+      const result = await actor.getWorkoutTemplates();
+      
+      if (result.__kind__ === 'ok') {
+        return result.ok.map((t) => ({
+          id: Number(t.id),
+          name: t.name,
+          exercises: t.exercises.map((te) => ({
+            exercise: convertBackendExercise(te.exercise),
+            sets: Number(te.sets),
+            reps: Number(te.reps),
+            targetWeight: te.targetWeight,
+          })),
+          updatedAt: t.updatedAt,
+        }));
+      } else {
+        const errorMsg = extractErrorMessage(result.err);
+        logWithTimestamp('Failed to fetch workout templates:', errorMsg);
+        throw new Error(errorMsg);
+      }
+    },
+    enabled: !!actor && !isFetching,
+    staleTime: 300000,
+    retry: 1,
+  });
+}
+
+export function useSaveWorkoutTemplate() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, name, exercises }: { id?: number; name: string; exercises: TemplateExercise[] }) => {
+      if (!actor) throw new Error('Actor not available');
+      
+      const result = await actor.saveWorkoutTemplate(
+        id !== undefined ? BigInt(id) : null,
+        name,
+        exercises.map(toBackendTemplateExercise)
+      );
+      
+      if (result.__kind__ === 'ok') {
+        return result.ok;
+      } else {
+        throw new Error(extractErrorMessage(result.err));
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['workoutTemplates'] });
+      toast.success('Template saved');
+    },
+    onError: (error) => {
+      logWithTimestamp('Workout template save error:', error);
+      toast.error(`Failed to save template: ${extractErrorMessage(error)}`);
+    },
+  });
+}
+
+export function useDeleteWorkoutTemplate() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      if (!actor) throw new Error('Actor not available');
+      
+      const result = await actor.deleteWorkoutTemplate(BigInt(id));
+      
+      if (result.__kind__ === 'err') {
+        throw new Error(extractErrorMessage(result.err));
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['workoutTemplates'] });
+    },
+    onError: (error) => {
+      logWithTimestamp('Workout template delete error:', error);
+      toast.error('Failed to delete template');
+    },
+  });
+}
+
+export function useIsCallerAdmin() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<boolean>({
+    queryKey: ['isCallerAdmin'],
+    queryFn: async (): Promise<boolean> => {
+      if (!actor) return false;
+      return actor.isCallerAdmin();
+    },
+    enabled: !!actor && !isFetching,
+    staleTime: 300000,
+    retry: false,
+  });
+}
+
+export function useGetExerciseLibrary() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<LibraryExercise[]>({
+    queryKey: ['exerciseLibrary'],
+    queryFn: async (): Promise<LibraryExercise[]> => {
+      if (!actor) return [];
+      
+      const result = await actor.getExerciseLibrary();
+      
+      if (result.__kind__ === 'ok') {
+        return result.ok.map((entry) => ({
+          id: Number(entry.id),
+          exercise: convertBackendExercise(entry.exercise),
+          deprecated: entry.deprecated,
+        }));
+      } else {
+        const errorMsg = extractErrorMessage(result.err);
+        logWithTimestamp('Failed to fetch exercise library:', errorMsg);
+        throw new Error(errorMsg);
+      }
+    },
+    enabled: !!actor && !isFetching,
+    retry: 1,
+  });
+}
+
+export function useGetLibraryCoverage() {
+  const { actor, isFetching } = useActor();
+
+  return useQuery<LibraryCoverage[]>({
+    queryKey: ['libraryCoverage'],
+    queryFn: async (): Promise<LibraryCoverage[]> => {
+      if (!actor) return [];
+      
+      const result = await actor.getLibraryCoverage();
+      
+      if (result.__kind__ === 'ok') {
+        return result.ok.map((coverage) => ({
+          target: coverage.target,
+          activeCount: Number(coverage.activeCount),
+          deprecatedCount: Number(coverage.deprecatedCount),
+          generatorLimit: Number(coverage.generatorLimit),
+        }));
+      } else {
+        const errorMsg = extractErrorMessage(result.err);
+        logWithTimestamp('Failed to fetch library coverage:', errorMsg);
+        throw new Error(errorMsg);
+      }
+    },
+    enabled: !!actor && !isFetching,
+    retry: 1,
+  });
+}
+
+function invalidateLibraryQueries(queryClient: QueryClient) {
+  queryClient.invalidateQueries({ queryKey: ['exerciseLibrary'] });
+  queryClient.invalidateQueries({ queryKey: ['libraryCoverage'] });
+  queryClient.invalidateQueries({ queryKey: ['alternativeExercises'] });
+}
+
+export function useSaveLibraryExercise() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, exercise }: { id?: number; exercise: Exercise }) => {
+      if (!actor) throw new Error('Actor not available');
+      
+      const result = id === undefined
+        ? await actor.addLibraryExercise(toBackendExercise(exercise))
+        : await actor.updateLibraryExercise(BigInt(id), toBackendExercise(exercise));
+      
+      if (result.__kind__ === 'ok') {
+        return result.ok;
+      } else {
+        throw new Error(extractErrorMessage(result.err));
+      }
+    },
+    onSuccess: () => {
+      invalidateLibraryQueries(queryClient);
+      toast.success('Library exercise saved');
+    },
+    onError: (error) => {
+      logWithTimestamp('Library exercise save error:', error);
+      toast.error(`Failed to save exercise: ${extractErrorMessage(error)}`);
+    },
+  });
+}
+
+export function useSetLibraryExerciseDeprecated() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, deprecated }: { id: number; deprecated: boolean }) => {
+      if (!actor) throw new Error('Actor not available');
+      
+      const result = await actor.setLibraryExerciseDeprecated(BigInt(id), deprecated);
+      
+      if (result.__kind__ === 'err') {
+        throw new Error(extractErrorMessage(result.err));
+      }
+    },
+    onSuccess: () => {
+      invalidateLibraryQueries(queryClient);
+    },
+    onError: (error) => {
+      logWithTimestamp('Library deprecation error:', error);
+      toast.error('Failed to update exercise');
+    },
+  });
+}
+
+export function useImportLibraryExercises() {
+  const { actor } = useActor();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (exercises: Exercise[]) => {
+      if (!actor) throw new Error('Actor not available');
+      
+      const result = await actor.importLibraryExercises(exercises.map(toBackendExercise));
+      
+      if (result.__kind__ === 'ok') {
+        return { added: Number(result.ok.added), updated: Number(result.ok.updated) };
+      } else {
+        throw new Error(extractErrorMessage(result.err));
+      }
+    },
+    onSuccess: ({ added, updated }) => {
+      invalidateLibraryQueries(queryClient);
+      toast.success(`Imported ${added} new and ${updated} updated exercises`);
+    },
+    onError: (error) => {
+      logWithTimestamp('Library import error:', error);
+      toast.error(`Import failed: ${extractErrorMessage(error)}`);
+    },
+  });
+}
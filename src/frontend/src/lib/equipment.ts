@@ -0,0 +1,31 @@
+import type { GymSettings } from '../backend';
+
+export const EQUIPMENT_TYPES = ['Barbell', 'Dumbbell', 'Machine', 'Cable', 'Plate', 'Bodyweight'];
+
+/**
+ * Equipment the user can actually pick from. An empty inventory means a full gym,
+ * and bodyweight work is always available, matching the backend's canPerform check.
+ */
+export function usableEquipment(availableEquipment: string[]): string[] {
+  if (availableEquipment.length === 0) return EQUIPMENT_TYPES;
+  return EQUIPMENT_TYPES.filter((type) => type === 'Bodyweight' || availableEquipment.includes(type));
+}
+
+/** The user's default gym id, if they have set up any gyms */
+export function defaultGymId(settings: GymSettings | undefined): number | undefined {
+  return settings?.defaultGymId !== undefined ? Number(settings.defaultGymId) : undefined;
+}
+
+/**
+ * Equipment for a workout at the given gym, mirroring the backend's resolveEquipment:
+ * an explicit gym, then the default gym, then the profile's own inventory.
+ */
+export function resolveGymEquipment(
+  settings: GymSettings | undefined,
+  gymId: number | undefined,
+  profileEquipment: string[]
+): string[] {
+  const targetId = gymId ?? defaultGymId(settings);
+  const gym = settings?.gyms.find((g) => Number(g.id) === targetId);
+  return gym ? gym.equipment : profileEquipment;
+}
@@ -0,0 +1,76 @@
+import { MovementPattern } from '../backend';
+import type { Exercise } from '../types';
+
+/** Muscle groups a custom or library exercise can target, matching the backend's MUSCLE_GROUPS */
+export const EXERCISE_MUSCLE_GROUPS = ['Quads', 'Hamstrings', 'Glutes', 'Calves', 'Core', 'Chest', 'Back', 'Shoulders', 'Arms'];
+
+/** Recovery window bounds, in hours, enforced by the backend for custom and library exercises */
+export const MIN_RECOVERY_HOURS = 24;
+export const MAX_RECOVERY_HOURS = 168;
+
+export const MOVEMENT_PATTERN_LABELS: Record<MovementPattern, string> = {
+  [MovementPattern.squat]: 'Squat',
+  [MovementPattern.hinge]: 'Hinge',
+  [MovementPattern.lunge]: 'Lunge',
+  [MovementPattern.hipExtension]: 'Hip extension',
+  [MovementPattern.kneeFlexion]: 'Knee flexion',
+  [MovementPattern.kneeExtension]: 'Knee extension',
+  [MovementPattern.calfRaise]: 'Calf raise',
+  [MovementPattern.horizontalPush]: 'Horizontal push',
+  [MovementPattern.verticalPush]: 'Vertical push',
+  [MovementPattern.horizontalPull]: 'Horizontal pull',
+  [MovementPattern.verticalPull]: 'Vertical pull',
+  [MovementPattern.chestFly]: 'Chest fly',
+  [MovementPattern.shoulderRaise]: 'Shoulder raise',
+  [MovementPattern.rearDeltFly]: 'Rear delt fly',
+  [MovementPattern.shoulderExtension]: 'Shoulder extension',
+  [MovementPattern.elbowFlexion]: 'Elbow flexion',
+  [MovementPattern.elbowExtension]: 'Elbow extension',
+  [MovementPattern.carry]: 'Carry',
+  [MovementPattern.antiExtension]: 'Core anti-extension',
+  [MovementPattern.antiRotation]: 'Core anti-rotation',
+  [MovementPattern.trunkFlexion]: 'Trunk flexion',
+  [MovementPattern.trunkRotation]: 'Trunk rotation',
+};
+
+export const EMPTY_EXERCISE: Exercise = {
+  name: '',
+  primaryMuscleGroup: 'Chest',
+  secondaryMuscleGroups: [],
+  movementPattern: MovementPattern.horizontalPush,
+  compound: true,
+  equipmentType: 'Barbell',
+  demoUrl: '',
+  recoveryTime: 72,
+};
+
+/**
+ * Parses a bulk-import payload: a JSON array of exercises. Missing optional fields
+ * default to no secondary groups, isolation, no demo link and a 72-hour recovery window.
+ * Throws with the offending entry when a required field is missing.
+ */
+export function parseExerciseImport(text: string): Exercise[] {
+  const parsed: unknown = JSON.parse(text);
+  if (!Array.isArray(parsed)) {
+    throw new Error('Import must be a JSON array of exercises');
+  }
+  return parsed.map((entry, index) => {
+    const { name, primaryMuscleGroup, movementPattern, compound, equipmentType, secondaryMuscleGroups, demoUrl, recoveryTime } = entry ?? {};
+    if (typeof name !== 'string' || typeof primaryMuscleGroup !== 'string' || typeof equipmentType !== 'string') {
+      throw new Error(`Entry ${index + 1} needs a name, primaryMuscleGroup and equipmentType`);
+    }
+    if (!(movementPattern in MOVEMENT_PATTERN_LABELS)) {
+      throw new Error(`Entry ${index + 1} needs a movementPattern, one of: ${Object.keys(MOVEMENT_PATTERN_LABELS).join(', ')}`);
+    }
+    return {
+      name,
+      primaryMuscleGroup,
+      secondaryMuscleGroups: Array.isArray(secondaryMuscleGroups) ? secondaryMuscleGroups.map(String) : [],
+      movementPattern: movementPattern as MovementPattern,
+      compound: compound === true,
+      equipmentType,
+      demoUrl: typeof demoUrl === 'string' ? demoUrl : '',
+      recoveryTime: typeof recoveryTime === 'number' ? recoveryTime : EMPTY_EXERCISE.recoveryTime,
+    };
+  });
+}
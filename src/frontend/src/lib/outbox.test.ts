@@ -0,0 +1,233 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { AppError, UserProfile, Workout, WorkoutInput } from '../backend';
+import {
+  countOutboxWrites,
+  createMemoryOutboxStore,
+  discardOutboxWrite,
+  enqueueOutboxWrite,
+  flushOutbox,
+  listFailedOutboxWrites,
+  outboxRetryDelay,
+  retryOutboxWrite,
+  type OutboxActor,
+  type OutboxStore,
+} from './outbox';
+
+const OWNER = 'owner-principal';
+
+const profile = {
+  bodyweight: 80,
+  weightUnit: 'kg',
+  muscleGroupRestInterval: 5n,
+} as unknown as UserProfile;
+
+function workoutInput(clientId: string): WorkoutInput {
+  return { clientId, exercises: [], timestamp: 1n, totalVolume: 0 } as unknown as WorkoutInput;
+}
+
+function storedWorkout(input: WorkoutInput): Workout {
+  return { ...input, id: 1n } as unknown as Workout;
+}
+
+const ok = <T>(value: T) => ({ __kind__: 'ok' as const, ok: value });
+const err = (error: AppError) => ({ __kind__: 'err' as const, err: error });
+const badArguments: AppError = { __kind__: 'badArguments', badArguments: 'Rejected by the canister' };
+const unauthorized: AppError = { __kind__: 'unauthorized', unauthorized: 'Not signed in' };
+
+// An actor that accepts every write unless a test overrides a method
+function mockActor(overrides: Partial<OutboxActor> = {}) {
+  return {
+    saveWorkout: vi.fn(async (input: WorkoutInput) => ok(storedWorkout(input))),
+    saveCallerUserProfile: vi.fn(async () => ok(null)),
+    getCallerUserProfile: vi.fn(async () => ok(profile)),
+    saveSetConfiguration: vi.fn(async () => ok(null)),
+    ...overrides,
+  } as unknown as OutboxActor & Record<keyof OutboxActor, ReturnType<typeof vi.fn>>;
+}
+
+async function queued(store: OutboxStore) {
+  return (await store.list(OWNER)).map((entry) => entry.write);
+}
+
+describe('enqueueOutboxWrite coalescing', () => {
+  it('folds profile patches into a queued full save', async () => {
+    const store = createMemoryOutboxStore();
+    await enqueueOutboxWrite(OWNER, { kind: 'saveProfile', profile }, store);
+    await enqueueOutboxWrite(OWNER, { kind: 'updateProfile', changes: { bodyweight: 82 } }, store);
+
+    expect(await queued(store)).toEqual([{ kind: 'saveProfile', profile: { ...profile, bodyweight: 82 } }]);
+  });
+
+  it('merges consecutive profile patches, later fields winning', async () => {
+    const store = createMemoryOutboxStore();
+    await enqueueOutboxWrite(OWNER, { kind: 'updateProfile', changes: { bodyweight: 82, weightUnit: profile.weightUnit } }, store);
+    await enqueueOutboxWrite(OWNER, { kind: 'updateProfile', changes: { bodyweight: 83 } }, store);
+
+    expect(await queued(store)).toEqual([
+      { kind: 'updateProfile', changes: { bodyweight: 83, weightUnit: profile.weightUnit, muscleGroupRestInterval: undefined } },
+    ]);
+  });
+
+  it('keeps only the latest set configuration per exercise', async () => {
+    const store = createMemoryOutboxStore();
+    const config = (reps: bigint) => ({ weight: 50, reps, sets: 3n });
+    await enqueueOutboxWrite(OWNER, { kind: 'saveSetConfiguration', exerciseName: 'Squat', config: config(5n) }, store);
+    await enqueueOutboxWrite(OWNER, { kind: 'saveSetConfiguration', exerciseName: 'Bench', config: config(8n) }, store);
+    await enqueueOutboxWrite(OWNER, { kind: 'saveSetConfiguration', exerciseName: 'Squat', config: config(6n) }, store);
+
+    expect(await queued(store)).toEqual([
+      { kind: 'saveSetConfiguration', exerciseName: 'Bench', config: config(8n) },
+      { kind: 'saveSetConfiguration', exerciseName: 'Squat', config: config(6n) },
+    ]);
+  });
+
+  it('queues distinct workouts separately but replaces a repeated save of the same one', async () => {
+    const store = createMemoryOutboxStore();
+    await enqueueOutboxWrite(OWNER, { kind: 'saveWorkout', workout: workoutInput('a') }, store);
+    await enqueueOutboxWrite(OWNER, { kind: 'saveWorkout', workout: workoutInput('b') }, store);
+    await enqueueOutboxWrite(OWNER, { kind: 'saveWorkout', workout: workoutInput('a') }, store);
+
+    expect((await queued(store)).map((write) => write.kind === 'saveWorkout' && write.workout.clientId)).toEqual([
+      'b',
+      'a',
+    ]);
+  });
+});
+
+describe('outboxRetryDelay', () => {
+  it('doubles from one second and caps at five minutes', () => {
+    expect([0, 1, 2, 3].map(outboxRetryDelay)).toEqual([1000, 2000, 4000, 8000]);
+    expect(outboxRetryDelay(8)).toBe(256_000);
+    expect(outboxRetryDelay(9)).toBe(300_000);
+    expect(outboxRetryDelay(30)).toBe(300_000);
+  });
+});
+
+describe('flushOutbox', () => {
+  it('replays writes in queue order and empties the outbox', async () => {
+    const store = createMemoryOutboxStore();
+    const actor = mockActor();
+    await enqueueOutboxWrite(OWNER, { kind: 'saveWorkout', workout: workoutInput('a') }, store);
+    await enqueueOutboxWrite(OWNER, { kind: 'updateProfile', changes: { bodyweight: 82 } }, store);
+
+    const result = await flushOutbox(actor, OWNER, store);
+
+    expect(result.applied.map(({ entry }) => entry.write.kind)).toEqual(['saveWorkout', 'updateProfile']);
+    expect(result.applied[1].reply).toEqual({ ...profile, bodyweight: 82 });
+    expect(actor.saveCallerUserProfile).toHaveBeenCalledWith({ ...profile, bodyweight: 82 });
+    expect(result.pending).toBe(0);
+  });
+
+  it('stops at an unreachable canister and keeps everything from there on', async () => {
+    const store = createMemoryOutboxStore();
+    const actor = mockActor({ saveWorkout: vi.fn().mockRejectedValue(new Error('Network down')) });
+    await enqueueOutboxWrite(OWNER, { kind: 'saveWorkout', workout: workoutInput('a') }, store);
+    await enqueueOutboxWrite(OWNER, { kind: 'saveProfile', profile }, store);
+
+    const result = await flushOutbox(actor, OWNER, store);
+
+    expect(actor.saveCallerUserProfile).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ applied: [], rejected: [], pending: 2 });
+    expect((await store.list(OWNER))[0]).toMatchObject({ attempts: 1, lastError: 'Network down' });
+  });
+
+  it('stops on unauthorized and keeps the write queued for after sign-in', async () => {
+    const store = createMemoryOutboxStore();
+    const actor = mockActor({ saveWorkout: vi.fn().mockResolvedValue(err(unauthorized)) });
+    await enqueueOutboxWrite(OWNER, { kind: 'saveWorkout', workout: workoutInput('a') }, store);
+    await enqueueOutboxWrite(OWNER, { kind: 'saveProfile', profile }, store);
+
+    const result = await flushOutbox(actor, OWNER, store);
+
+    expect(actor.saveCallerUserProfile).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ applied: [], rejected: [], pending: 2 });
+    const [entry] = await store.list(OWNER);
+    expect(entry).toMatchObject({ attempts: 1, lastError: 'Not signed in' });
+    expect(entry.failed).toBeFalsy();
+  });
+
+  it('drops a rejected profile write and reports it', async () => {
+    const store = createMemoryOutboxStore();
+    const actor = mockActor({ saveCallerUserProfile: vi.fn().mockResolvedValue(err(badArguments)) });
+    await enqueueOutboxWrite(OWNER, { kind: 'saveProfile', profile }, store);
+
+    const result = await flushOutbox(actor, OWNER, store);
+
+    expect(result.rejected).toMatchObject([{ entry: { write: { kind: 'saveProfile' } }, message: 'Rejected by the canister' }]);
+    expect(await store.list(OWNER)).toEqual([]);
+  });
+
+  it('keeps a rejected workout as failed, skips it, and lets later writes through', async () => {
+    const store = createMemoryOutboxStore();
+    const actor = mockActor({ saveWorkout: vi.fn().mockResolvedValue(err(badArguments)) });
+    await enqueueOutboxWrite(OWNER, { kind: 'saveWorkout', workout: workoutInput('a') }, store);
+    await enqueueOutboxWrite(OWNER, { kind: 'saveProfile', profile }, store);
+
+    const first = await flushOutbox(actor, OWNER, store);
+    expect(first.rejected).toMatchObject([{ entry: { write: { kind: 'saveWorkout' } }, message: 'Rejected by the canister' }]);
+    expect(first.applied.map(({ entry }) => entry.write.kind)).toEqual(['saveProfile']);
+    expect(first.pending).toBe(0);
+
+    const failed = await listFailedOutboxWrites(OWNER, store);
+    expect(failed).toMatchObject([{ failed: true, attempts: 1, lastError: 'Rejected by the canister' }]);
+    expect(await countOutboxWrites(OWNER, store)).toBe(0);
+
+    const second = await flushOutbox(actor, OWNER, store);
+    expect(actor.saveWorkout).toHaveBeenCalledTimes(1);
+    expect(second).toMatchObject({ applied: [], rejected: [], pending: 0 });
+  });
+
+  it('replays a failed workout once the user retries it', async () => {
+    const store = createMemoryOutboxStore();
+    const saveWorkout = vi.fn().mockResolvedValueOnce(err(badArguments));
+    saveWorkout.mockImplementation(async (input: WorkoutInput) => ok(storedWorkout(input)));
+    const actor = mockActor({ saveWorkout });
+    const id = await enqueueOutboxWrite(OWNER, { kind: 'saveWorkout', workout: workoutInput('a') }, store);
+    await flushOutbox(actor, OWNER, store);
+
+    await retryOutboxWrite(id, store);
+    expect(await countOutboxWrites(OWNER, store)).toBe(1);
+    const result = await flushOutbox(actor, OWNER, store);
+
+    expect(result.applied.map(({ entry }) => entry.id)).toEqual([id]);
+    expect(await store.list(OWNER)).toEqual([]);
+  });
+
+  it('forgets a failed workout once the user discards it', async () => {
+    const store = createMemoryOutboxStore();
+    const actor = mockActor({ saveWorkout: vi.fn().mockResolvedValue(err(badArguments)) });
+    const id = await enqueueOutboxWrite(OWNER, { kind: 'saveWorkout', workout: workoutInput('a') }, store);
+    await flushOutbox(actor, OWNER, store);
+
+    await discardOutboxWrite(id, store);
+
+    expect(await store.list(OWNER)).toEqual([]);
+  });
+
+  it('gives an overlapping flush the results of the run it waited for', async () => {
+    const store = createMemoryOutboxStore();
+    const actor = mockActor({ saveWorkout: vi.fn().mockResolvedValue(err(badArguments)) });
+    await enqueueOutboxWrite(OWNER, { kind: 'saveWorkout', workout: workoutInput('a') }, store);
+
+    const [background, foreground] = await Promise.all([
+      flushOutbox(actor, OWNER, store),
+      flushOutbox(actor, OWNER, store),
+    ]);
+
+    expect(actor.saveWorkout).toHaveBeenCalledTimes(1);
+    expect(background.rejected).toHaveLength(1);
+    expect(foreground.rejected.map(({ entry }) => entry.id)).toEqual(background.rejected.map(({ entry }) => entry.id));
+  });
+
+  it('never replays another owner\'s writes', async () => {
+    const store = createMemoryOutboxStore();
+    const actor = mockActor();
+    await enqueueOutboxWrite('someone-else', { kind: 'saveProfile', profile }, store);
+
+    const result = await flushOutbox(actor, OWNER, store);
+
+    expect(actor.saveCallerUserProfile).not.toHaveBeenCalled();
+    expect(result.pending).toBe(0);
+    expect(await countOutboxWrites('someone-else', store)).toBe(1);
+  });
+});
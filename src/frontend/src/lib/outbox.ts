@@ -0,0 +1,386 @@
+import type {
+  AppError,
+  SetConfiguration,
+  UserProfile,
+  WeightUnit,
+  Workout,
+  WorkoutInput,
+  backendInterface,
+} from '../backend';
+
+/**
+ * Offline outbox for canister writes.
+ *
+ * Every write is queued first and then replayed in the order it was queued, so a
+ * write made while offline can never overtake an older one. Replay stops at the
+ * first call that fails to reach the canister and resumes on the next flush.
+ * Conflicts resolve the same way every time:
+ * - workouts carry a clientId, so replaying one the canister already stored returns that record,
+ *   and a later save with the same clientId replaces a queued one
+ * - a full profile save supersedes every queued profile change before it
+ * - bodyweight and unit changes are patches, merged over the canister's profile when replayed
+ * - the latest queued set configuration for an exercise replaces older ones
+ * - a rejected workout is kept, marked failed, until the user retries or discards it
+ * - any other write the canister rejects is dropped, leaving the canister's state in place
+ *
+ * The actor and store are parameters so the replay logic can run against a stub
+ * actor and the in-memory store.
+ */
+
+export type ProfileChanges = {
+  bodyweight?: number;
+  weightUnit?: WeightUnit;
+  muscleGroupRestInterval?: bigint;
+};
+
+export type OutboxWrite =
+  | { kind: 'saveWorkout'; workout: WorkoutInput }
+  | { kind: 'saveProfile'; profile: UserProfile }
+  | { kind: 'updateProfile'; changes: ProfileChanges }
+  | { kind: 'saveSetConfiguration'; exerciseName: string; config: SetConfiguration };
+
+export interface OutboxEntry {
+  id: number;
+  // Principal of the user who made the write; other users' entries are never replayed
+  owner: string;
+  write: OutboxWrite;
+  enqueuedAt: number;
+  attempts: number;
+  lastError?: string;
+  // Set when the canister rejected the write; replay skips it until the user retries
+  failed?: boolean;
+}
+
+// The canister's reply: the stored workout, the merged profile, or null
+export type OutboxReply = Workout | UserProfile | null;
+
+export interface OutboxFlushResult {
+  applied: { entry: OutboxEntry; reply: OutboxReply }[];
+  rejected: { entry: OutboxEntry; message: string }[];
+  pending: number;
+}
+
+export type OutboxActor = Pick<
+  backendInterface,
+  'saveWorkout' | 'saveCallerUserProfile' | 'getCallerUserProfile' | 'saveSetConfiguration'
+>;
+
+export interface OutboxStore {
+  // Entries for one owner, oldest first
+  list(owner: string): Promise<OutboxEntry[]>;
+  add(entry: Omit<OutboxEntry, 'id'>): Promise<number>;
+  remove(id: number): Promise<void>;
+  // Counts a failed attempt; a no-op if the entry was superseded in the meantime
+  recordFailure(id: number, message: string): Promise<void>;
+  // Sets or clears the failed flag, keeping the last error for display
+  setFailed(id: number, failed: boolean): Promise<void>;
+}
+
+const DB_NAME = 'fittrack-outbox';
+const STORE_NAME = 'writes';
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function createIndexedDbOutboxStore(): OutboxStore {
+  let db: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!db) {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('owner', 'owner');
+      };
+      db = requestResult(request);
+    }
+    return db;
+  };
+
+  const objectStore = async (mode: IDBTransactionMode) =>
+    (await open()).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+
+  return {
+    async list(owner) {
+      // Index results come back in primary key order, which is queue order
+      return requestResult((await objectStore('readonly')).index('owner').getAll(owner));
+    },
+    async add(entry) {
+      return Number(await requestResult((await objectStore('readwrite')).add(entry)));
+    },
+    async remove(id) {
+      await requestResult((await objectStore('readwrite')).delete(id));
+    },
+    async recordFailure(id, message) {
+      const store = await objectStore('readwrite');
+      const entry: OutboxEntry | undefined = await requestResult(store.get(id));
+      if (entry) {
+        await requestResult(store.put({ ...entry, attempts: entry.attempts + 1, lastError: message }));
+      }
+    },
+    async setFailed(id, failed) {
+      const store = await objectStore('readwrite');
+      const entry: OutboxEntry | undefined = await requestResult(store.get(id));
+      if (entry) {
+        await requestResult(store.put({ ...entry, failed }));
+      }
+    },
+  };
+}
+
+export function createMemoryOutboxStore(): OutboxStore {
+  const entries = new Map<number, OutboxEntry>();
+  let nextId = 1;
+
+  return {
+    async list(owner) {
+      return Array.from(entries.values()).filter((entry) => entry.owner === owner);
+    },
+    async add(entry) {
+      const id = nextId++;
+      entries.set(id, { ...entry, id });
+      return id;
+    },
+    async remove(id) {
+      entries.delete(id);
+    },
+    async recordFailure(id, message) {
+      const entry = entries.get(id);
+      if (entry) {
+        entries.set(id, { ...entry, attempts: entry.attempts + 1, lastError: message });
+      }
+    },
+    async setFailed(id, failed) {
+      const entry = entries.get(id);
+      if (entry) {
+        entries.set(id, { ...entry, failed });
+      }
+    },
+  };
+}
+
+// Private browsing modes can leave IndexedDB unavailable; writes then only survive the tab
+export const defaultOutboxStore: OutboxStore =
+  typeof indexedDB === 'undefined' ? createMemoryOutboxStore() : createIndexedDbOutboxStore();
+
+export function applyProfileChanges(profile: UserProfile, changes: ProfileChanges): UserProfile {
+  return {
+    ...profile,
+    bodyweight: changes.bodyweight ?? profile.bodyweight,
+    weightUnit: changes.weightUnit ?? profile.weightUnit,
+    muscleGroupRestInterval: changes.muscleGroupRestInterval ?? profile.muscleGroupRestInterval,
+  };
+}
+
+function mergeProfileChanges(earlier: ProfileChanges, later: ProfileChanges): ProfileChanges {
+  return {
+    bodyweight: later.bodyweight ?? earlier.bodyweight,
+    weightUnit: later.weightUnit ?? earlier.weightUnit,
+    muscleGroupRestInterval: later.muscleGroupRestInterval ?? earlier.muscleGroupRestInterval,
+  };
+}
+
+/**
+ * Folds a new write into the entries it supersedes. Returns the write to queue
+ * and the ids of queued entries it replaces.
+ */
+function coalesce(write: OutboxWrite, queued: OutboxEntry[]): { write: OutboxWrite; replaces: number[] } {
+  switch (write.kind) {
+    case 'saveWorkout': {
+      // A repeated save of the same workout, e.g. after a rejection, replaces the earlier one
+      const replaces = queued
+        .filter((entry) => entry.write.kind === 'saveWorkout' && entry.write.workout.clientId === write.workout.clientId)
+        .map((entry) => entry.id);
+      return { write, replaces };
+    }
+    case 'saveProfile': {
+      const replaces = queued
+        .filter((entry) => entry.write.kind === 'saveProfile' || entry.write.kind === 'updateProfile')
+        .map((entry) => entry.id);
+      return { write, replaces };
+    }
+    case 'updateProfile': {
+      // Earlier enqueues already coalesced, so at most one profile write is queued
+      const previous = queued.filter(
+        (entry) => entry.write.kind === 'saveProfile' || entry.write.kind === 'updateProfile',
+      );
+      const last = previous.at(-1)?.write;
+      let merged: OutboxWrite = write;
+      if (last?.kind === 'saveProfile') {
+        merged = { kind: 'saveProfile', profile: applyProfileChanges(last.profile, write.changes) };
+      } else if (last?.kind === 'updateProfile') {
+        merged = { kind: 'updateProfile', changes: mergeProfileChanges(last.changes, write.changes) };
+      }
+      return { write: merged, replaces: previous.map((entry) => entry.id) };
+    }
+    case 'saveSetConfiguration': {
+      const replaces = queued
+        .filter((entry) => entry.write.kind === 'saveSetConfiguration' && entry.write.exerciseName === write.exerciseName)
+        .map((entry) => entry.id);
+      return { write, replaces };
+    }
+  }
+}
+
+let enqueueChain: Promise<unknown> = Promise.resolve();
+
+/** Queues a write behind the owner's pending ones and returns its entry id. */
+export function enqueueOutboxWrite(
+  owner: string,
+  write: OutboxWrite,
+  store: OutboxStore = defaultOutboxStore,
+): Promise<number> {
+  // Enqueues run one at a time so coalescing always sees the previous write
+  const run = enqueueChain.catch(() => undefined).then(async () => {
+    const { write: merged, replaces } = coalesce(write, await store.list(owner));
+    for (const id of replaces) {
+      await store.remove(id);
+    }
+    return store.add({ owner, write: merged, enqueuedAt: Date.now(), attempts: 0 });
+  });
+  enqueueChain = run;
+  return run;
+}
+
+/** Writes still waiting to be replayed, not counting failed ones. */
+export async function countOutboxWrites(owner: string, store: OutboxStore = defaultOutboxStore): Promise<number> {
+  return (await store.list(owner)).filter((entry) => !entry.failed).length;
+}
+
+export async function listFailedOutboxWrites(
+  owner: string,
+  store: OutboxStore = defaultOutboxStore,
+): Promise<OutboxEntry[]> {
+  return (await store.list(owner)).filter((entry) => entry.failed);
+}
+
+/** Returns a failed write to the queue; the next flush replays it. */
+export function retryOutboxWrite(id: number, store: OutboxStore = defaultOutboxStore): Promise<void> {
+  return store.setFailed(id, false);
+}
+
+export function discardOutboxWrite(id: number, store: OutboxStore = defaultOutboxStore): Promise<void> {
+  return store.remove(id);
+}
+
+type ApplyResult = { __kind__: 'ok'; ok: OutboxReply } | { __kind__: 'err'; err: AppError };
+
+async function applyWrite(actor: OutboxActor, write: OutboxWrite): Promise<ApplyResult> {
+  switch (write.kind) {
+    case 'saveWorkout':
+      return actor.saveWorkout(write.workout);
+    case 'saveProfile': {
+      const result = await actor.saveCallerUserProfile(write.profile);
+      return result.__kind__ === 'ok' ? { __kind__: 'ok', ok: null } : result;
+    }
+    case 'updateProfile': {
+      const current = await actor.getCallerUserProfile();
+      if (current.__kind__ === 'err') return current;
+      if (current.ok === null) {
+        return { __kind__: 'err', err: { __kind__: 'userProfileNotFound', userProfileNotFound: 'Profile not found' } };
+      }
+      const profile = applyProfileChanges(current.ok, write.changes);
+      const result = await actor.saveCallerUserProfile(profile);
+      return result.__kind__ === 'ok' ? { __kind__: 'ok', ok: profile } : result;
+    }
+    case 'saveSetConfiguration': {
+      const result = await actor.saveSetConfiguration(write.exerciseName, write.config);
+      return result.__kind__ === 'ok' ? { __kind__: 'ok', ok: null } : result;
+    }
+  }
+}
+
+function appErrorMessage(error: AppError): string {
+  switch (error.__kind__) {
+    case 'unauthorized':
+      return error.unauthorized;
+    case 'adminOnly':
+      return error.adminOnly;
+    case 'userNotFound':
+      return error.userNotFound;
+    case 'userProfileNotFound':
+      return error.userProfileNotFound;
+    case 'badArguments':
+      return error.badArguments;
+    case 'internalError':
+      return error.internalError;
+    case 'optimizationFailed':
+      return error.optimizationFailed;
+  }
+}
+
+async function replayOutbox(actor: OutboxActor, owner: string, store: OutboxStore): Promise<OutboxFlushResult> {
+  const result: OutboxFlushResult = { applied: [], rejected: [], pending: 0 };
+
+  for (const entry of await store.list(owner)) {
+    if (entry.failed) continue;
+    let outcome: ApplyResult;
+    try {
+      outcome = await applyWrite(actor, entry.write);
+    } catch (error) {
+      // The call never got an answer, so keep the entry and everything queued after it
+      await store.recordFailure(entry.id, error instanceof Error ? error.message : String(error));
+      break;
+    }
+    if (outcome.__kind__ === 'ok') {
+      await store.remove(entry.id);
+      result.applied.push({ entry, reply: outcome.ok });
+    } else if (outcome.err.__kind__ === 'unauthorized') {
+      // Stays queued until the user signs back in
+      await store.recordFailure(entry.id, appErrorMessage(outcome.err));
+      break;
+    } else {
+      const message = appErrorMessage(outcome.err);
+      if (entry.write.kind === 'saveWorkout') {
+        // A logged workout can't be recreated, so it waits for the user; saves are idempotent, so a retry is safe
+        await store.recordFailure(entry.id, message);
+        await store.setFailed(entry.id, true);
+      } else {
+        await store.remove(entry.id);
+      }
+      result.rejected.push({ entry, message });
+    }
+  }
+
+  result.pending = await countOutboxWrites(owner, store);
+  return result;
+}
+
+let activeFlush: Promise<OutboxFlushResult> | null = null;
+
+/**
+ * Replays the owner's queued writes. Flushes never overlap: a flush requested
+ * while another runs waits for it, and its result includes what that run settled.
+ */
+export function flushOutbox(
+  actor: OutboxActor,
+  owner: string,
+  store: OutboxStore = defaultOutboxStore,
+): Promise<OutboxFlushResult> {
+  const previous = activeFlush ?? Promise.resolve<OutboxFlushResult | null>(null);
+  const run = previous
+    .catch(() => null)
+    .then(async (earlier) => {
+      const result = await replayOutbox(actor, owner, store);
+      if (earlier) {
+        result.applied.unshift(...earlier.applied.filter(({ entry }) => entry.owner === owner));
+        result.rejected.unshift(...earlier.rejected.filter(({ entry }) => entry.owner === owner));
+      }
+      return result;
+    });
+  activeFlush = run;
+  run.finally(() => {
+    if (activeFlush === run) activeFlush = null;
+  }).catch(() => undefined);
+  return run;
+}
+
+/** Delay before the next background retry, doubling per failed attempt up to five minutes. */
+export function outboxRetryDelay(attempt: number): number {
+  return Math.min(1000 * 2 ** attempt, MAX_RETRY_DELAY_MS);
+}
@@ -0,0 +1,67 @@
+/**
+ * Local copies of the last profile and workout history fetched for each user
+ * Lets the app open without a connection and still show the user's own data
+ */
+
+import type { UserProfile } from '../backend';
+import type { Workout } from '../types';
+
+const PROFILE_KEY_PREFIX = 'cached-profile:';
+const HISTORY_KEY_PREFIX = 'cached-history:';
+
+// JSON has no bigint, so bigint values are stored as tagged strings
+function serialize(value: unknown): string {
+  return JSON.stringify(value, (_key, v) => (typeof v === 'bigint' ? { __bigint: v.toString() } : v));
+}
+
+function deserialize<T>(serialized: string): T {
+  return JSON.parse(serialized, (_key, v) =>
+    v && typeof v === 'object' && typeof v.__bigint === 'string' ? BigInt(v.__bigint) : v,
+  ) as T;
+}
+
+function load<T>(key: string): T | undefined {
+  try {
+    const serialized = localStorage.getItem(key);
+    return serialized ? deserialize<T>(serialized) : undefined;
+  } catch (error) {
+    console.error('[ProfileCache] Failed to load cached data:', error);
+    return undefined;
+  }
+}
+
+function save(key: string, value: unknown): void {
+  try {
+    localStorage.setItem(key, serialize(value));
+  } catch (error) {
+    console.error('[ProfileCache] Failed to cache data:', error);
+  }
+}
+
+export function loadCachedProfile(principal: string): UserProfile | undefined {
+  return load<UserProfile>(PROFILE_KEY_PREFIX + principal);
+}
+
+export function saveCachedProfile(principal: string, profile: UserProfile): void {
+  save(PROFILE_KEY_PREFIX + principal, profile);
+}
+
+export function loadCachedHistory(principal: string): Workout[] | undefined {
+  return load<Workout[]>(HISTORY_KEY_PREFIX + principal);
+}
+
+export function saveCachedHistory(principal: string, history: Workout[]): void {
+  save(HISTORY_KEY_PREFIX + principal, history);
+}
+
+/**
+ * Remove a user's cached data, e.g. when they log out on a shared device
+ */
+export function clearCachedUserData(principal: string): void {
+  try {
+    localStorage.removeItem(PROFILE_KEY_PREFIX + principal);
+    localStorage.removeItem(HISTORY_KEY_PREFIX + principal);
+  } catch (error) {
+    console.error('[ProfileCache] Failed to clear cached data:', error);
+  }
+}
@@ -13,6 +13,8 @@ export interface WorkoutSessionState {
   exerciseLogs: Record<number, any[]>;
   customSetsCount: Record<number, number>;
   timestamp: number;
+  // Idempotency key for the eventual save; missing in sessions stored before it existed
+  clientId?: string;
 }
 
 /**
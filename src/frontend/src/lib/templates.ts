@@ -0,0 +1,31 @@
+import type { TemplateExercise, WorkoutExercise, WorkoutTemplate } from '../types';
+
+export const TEMPLATE_NAME_MAX_LENGTH = 60;
+
+/**
+ * Captures a workout as template targets. Logged sessions keep what was actually
+ * done: the number of logged sets and the heaviest working weight. Planned
+ * workouts without set data keep their prescription.
+ */
+export function templateExercisesFromWorkout(exercises: WorkoutExercise[]): TemplateExercise[] {
+  return exercises.map((we) => {
+    const logged = we.setData ?? [];
+    if (logged.length === 0) {
+      return { exercise: we.exercise, sets: we.sets, reps: we.reps, targetWeight: we.suggestedWeight };
+    }
+    const topWeight = Math.max(...logged.map((set) => set.weight));
+    const topReps = Math.max(...logged.filter((set) => set.weight === topWeight).map((set) => set.reps));
+    return { exercise: we.exercise, sets: logged.length, reps: topReps, targetWeight: topWeight };
+  });
+}
+
+/** Turns a template into a fresh, unlogged workout for the preview page. */
+export function workoutFromTemplate(template: WorkoutTemplate): WorkoutExercise[] {
+  return template.exercises.map((te) => ({
+    exercise: te.exercise,
+    sets: te.sets,
+    reps: te.reps,
+    suggestedWeight: te.targetWeight,
+    setData: [],
+  }));
+}
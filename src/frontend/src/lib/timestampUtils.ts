@@ -29,6 +29,23 @@ export function convertTimestamp(timestamp: bigint): number {
   return numTimestamp;
 }
 
+/**
+ * Returns the local Monday-to-Monday range for a week relative to the current one
+ * @param weekOffset - 0 for this week, -1 for last week, and so on
+ * @returns { start, end } - start is inclusive, end is exclusive
+ */
+export function getWeekRange(weekOffset: number): { start: Date; end: Date } {
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  const daysSinceMonday = (start.getDay() + 6) % 7;
+  start.setDate(start.getDate() - daysSinceMonday + weekOffset * 7);
+  
+  const end = new Date(start);
+  end.setDate(start.getDate() + 7);
+  
+  return { start, end };
+}
+
 /**
  * Validates if a timestamp is within a reasonable range
  * @param milliseconds - Timestamp in milliseconds
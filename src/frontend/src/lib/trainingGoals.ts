@@ -0,0 +1,16 @@
+import { TrainingGoal } from '../backend';
+
+export const TRAINING_GOAL_OPTIONS: Array<{ value: TrainingGoal; label: string; description: string }> = [
+  { value: TrainingGoal.strength, label: 'Strength', description: 'Heavy sets of 5–8 reps, long rests' },
+  { value: TrainingGoal.hypertrophy, label: 'Hypertrophy', description: 'Moderate loads for 8–12 reps' },
+  { value: TrainingGoal.endurance, label: 'Endurance', description: 'Lighter loads for 15–20 reps, short rests' },
+  { value: TrainingGoal.generalFitness, label: 'General Fitness', description: 'Balanced 10–12 rep training' },
+];
+
+/** Rest between sets (seconds) suggested when a goal is picked; users can still override it. */
+export const GOAL_DEFAULT_REST_SECONDS: Record<TrainingGoal, number> = {
+  [TrainingGoal.strength]: 180,
+  [TrainingGoal.hypertrophy]: 90,
+  [TrainingGoal.endurance]: 60,
+  [TrainingGoal.generalFitness]: 90,
+};
@@ -0,0 +1,39 @@
+import type { WorkoutSpec } from '../backend';
+
+/**
+ * Targets a custom split can draw from. Triceps, Biceps and Rear Delts are
+ * narrower focus targets the backend resolves within Arms and Shoulders.
+ */
+export const SPLIT_TARGET_GROUPS = [
+  'Chest',
+  'Back',
+  'Shoulders',
+  'Rear Delts',
+  'Biceps',
+  'Triceps',
+  'Quads',
+  'Hamstrings',
+  'Glutes',
+  'Calves',
+  'Core',
+];
+
+export const MAX_EXERCISES_PER_GROUP = 4;
+
+/**
+ * Builds a backend workout spec from per-group exercise counts.
+ * Groups with a count of zero are left out; the exercise cap is the sum of the counts.
+ */
+export function buildCustomSplitSpec(counts: Record<string, number>): WorkoutSpec {
+  const groups = SPLIT_TARGET_GROUPS
+    .filter((group) => (counts[group] ?? 0) > 0)
+    .map((group) => ({ muscleGroup: group, limit: BigInt(counts[group]) }));
+  const total = groups.reduce((sum, g) => sum + Number(g.limit), 0);
+
+  return {
+    name: 'Custom split',
+    groups,
+    maxExercises: BigInt(total),
+    equipmentFilter: [],
+  };
+}
@@ -6,6 +6,15 @@ import './index.css';
 
 const queryClient = new QueryClient();
 
+// The service worker is only emitted by production builds
+if ('serviceWorker' in navigator && import.meta.env.PROD) {
+    window.addEventListener('load', () => {
+        navigator.serviceWorker.register('/sw.js').catch((error) => {
+            console.error('[ServiceWorker] Registration failed:', error);
+        });
+    });
+}
+
 ReactDOM.createRoot(document.getElementById('root')!).render(
     <QueryClientProvider client={queryClient}>
         <InternetIdentityProvider>
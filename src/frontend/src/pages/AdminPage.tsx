@@ -0,0 +1,236 @@
+import { useMemo, useState } from 'react';
+import {
+  useGetExerciseLibrary,
+  useGetLibraryCoverage,
+  useSaveLibraryExercise,
+  useSetLibraryExerciseDeprecated,
+  useImportLibraryExercises,
+} from '../hooks/useQueries';
+import { Exercise, LibraryExercise } from '../types';
+import { EMPTY_EXERCISE, EXERCISE_MUSCLE_GROUPS, MOVEMENT_PATTERN_LABELS, parseExerciseImport } from '../lib/exercises';
+import ExerciseForm from '../components/ExerciseForm';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertTriangle, ArrowLeft, Archive, ArchiveRestore, Library, Loader2, Pencil, Plus, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+
+interface AdminPageProps {
+  onBack: () => void;
+}
+
+interface LibraryDraft {
+  id?: number;
+  exercise: Exercise;
+}
+
+export default function AdminPage({ onBack }: AdminPageProps) {
+  const { data: library = [], isLoading: libraryLoading } = useGetExerciseLibrary();
+  const { data: coverage = [], isLoading: coverageLoading } = useGetLibraryCoverage();
+  const saveExercise = useSaveLibraryExercise();
+  const setDeprecated = useSetLibraryExerciseDeprecated();
+  const importExercises = useImportLibraryExercises();
+  const [draft, setDraft] = useState<LibraryDraft | null>(null);
+  const [importText, setImportText] = useState('');
+
+  const gaps = coverage.filter((c) => c.activeCount < c.generatorLimit);
+
+  const libraryByGroup = useMemo(() => {
+    const groups = new Map<string, LibraryExercise[]>();
+    for (const group of EXERCISE_MUSCLE_GROUPS) groups.set(group, []);
+    for (const entry of library) {
+      const list = groups.get(entry.exercise.primaryMuscleGroup) ?? [];
+      list.push(entry);
+      groups.set(entry.exercise.primaryMuscleGroup, list);
+    }
+    for (const list of groups.values()) {
+      list.sort((a, b) => a.exercise.name.localeCompare(b.exercise.name));
+    }
+    return groups;
+  }, [library]);
+
+  const handleSave = async (exercise: Exercise) => {
+    await saveExercise.mutateAsync({ id: draft?.id, exercise });
+    setDraft(null);
+  };
+
+  const handleImport = async () => {
+    let exercises: Exercise[];
+    try {
+      exercises = parseExerciseImport(importText);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Invalid import');
+      return;
+    }
+    await importExercises.mutateAsync(exercises);
+    setImportText('');
+  };
+
+  return (
+    <div className="flex min-h-screen flex-col bg-background pb-24">
+      <header className="sticky top-0 z-50 border-b border-border/50 bg-background/95 backdrop-blur-sm">
+        <div className="container px-4">
+          <div className="flex h-16 items-center gap-4">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onBack}
+              className="h-10 w-10 hover:bg-white/10 active:scale-90 rounded-2xl tap-target transition-all hover:shadow-glow-primary"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <h1 className="text-xl font-bold">Exercise Library</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 px-4 py-6">
+        <div className="mx-auto max-w-2xl space-y-6">
+          <Card className="shadow-sm border-border/50">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <AlertTriangle className="h-5 w-5 text-primary" />
+                Coverage
+              </CardTitle>
+              <CardDescription>
+                {gaps.length === 0
+                  ? 'Every target has enough active exercises for the preset workouts'
+                  : `${gaps.length} target${gaps.length !== 1 ? 's' : ''} below the generator's limit`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {coverageLoading ? (
+                <Skeleton className="h-32 w-full" />
+              ) : (
+                <div className="grid grid-cols-2 gap-2 sm:grid-cols-3">
+                  {coverage.map((c) => {
+                    const isGap = c.activeCount < c.generatorLimit;
+                    return (
+                      <div
+                        key={c.target}
+                        className={`rounded-lg border p-3 ${isGap ? 'border-destructive/50 bg-destructive/10' : 'border-border/50 bg-muted/30'}`}
+                      >
+                        <p className="text-sm font-semibold">{c.target}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {c.activeCount} active{c.deprecatedCount > 0 ? ` · ${c.deprecatedCount} deprecated` : ''}
+                        </p>
+                        <p className={`text-xs ${isGap ? 'text-destructive' : 'text-muted-foreground'}`}>
+                          Generator asks for up to {c.generatorLimit}
+                        </p>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-sm border-border/50">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Library className="h-5 w-5 text-primary" />
+                Exercises
+              </CardTitle>
+              <CardDescription>Deprecated exercises are kept for history but no longer generated</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {draft ? (
+                <ExerciseForm
+                  key={draft.id ?? 'new'}
+                  initial={draft.exercise}
+                  submitLabel={draft.id === undefined ? 'Add Exercise' : 'Save Changes'}
+                  isSaving={saveExercise.isPending}
+                  onSubmit={handleSave}
+                  onCancel={() => setDraft(null)}
+                />
+              ) : (
+                <Button variant="outline" className="w-full" onClick={() => setDraft({ exercise: EMPTY_EXERCISE })}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Exercise
+                </Button>
+              )}
+
+              {libraryLoading ? (
+                <Skeleton className="h-48 w-full" />
+              ) : (
+                Array.from(libraryByGroup.entries()).map(([group, entries]) => (
+                  <div key={group} className="space-y-2">
+                    <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+                      {group} <span className="font-normal">({entries.length})</span>
+                    </h3>
+                    {entries.map((entry) => (
+                      <div
+                        key={entry.id}
+                        className={`flex items-center gap-2 rounded-lg border border-border px-3 py-2 ${entry.deprecated ? 'opacity-60' : ''}`}
+                      >
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2">
+                            <span className="truncate font-medium">{entry.exercise.name}</span>
+                            {entry.deprecated && <Badge variant="secondary">Deprecated</Badge>}
+                          </div>
+                          <p className="truncate text-xs text-muted-foreground">
+                            {entry.exercise.equipmentType} · {MOVEMENT_PATTERN_LABELS[entry.exercise.movementPattern]}
+                            {entry.exercise.compound ? ' (compound)' : ''} · {entry.exercise.recoveryTime}h recovery
+                          </p>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          title="Edit exercise"
+                          onClick={() => setDraft({ id: entry.id, exercise: entry.exercise })}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          title={entry.deprecated ? 'Restore exercise' : 'Deprecate exercise'}
+                          disabled={setDeprecated.isPending}
+                          onClick={() => setDeprecated.mutate({ id: entry.id, deprecated: !entry.deprecated })}
+                        >
+                          {entry.deprecated ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-sm border-border/50">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Upload className="h-5 w-5 text-primary" />
+                Bulk Import
+              </CardTitle>
+              <CardDescription>
+                Paste a JSON array of exercises. Existing names are updated, new names are added.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <Textarea
+                value={importText}
+                onChange={(e) => setImportText(e.target.value)}
+                placeholder='[{ "name": "Hack Squat", "primaryMuscleGroup": "Quads", "movementPattern": "squat", "compound": true, "equipmentType": "Machine" }]'
+                rows={6}
+                className="font-mono text-xs"
+              />
+              <Button
+                className="w-full"
+                disabled={!importText.trim() || importExercises.isPending}
+                onClick={handleImport}
+              >
+                {importExercises.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Import'}
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,14 +1,16 @@
 import { useState, lazy, Suspense } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
-import { UserProfile } from '../backend';
-import { useGetWorkoutHistory, useGetLegSubgroupRecovery } from '../hooks/useQueries';
+import { UserProfile, PlannedSession } from '../backend';
+import { WorkoutExercise } from '../types';
+import { useGetWorkoutHistory, useGetLegSubgroupRecovery, useGetWeeklyPlan, useGenerateWorkout, useGetOutboxPendingCount, WorkoutType } from '../hooks/useQueries';
 import StatusBar from '../components/StatusBar';
+import ProgramCard from '../components/ProgramCard';
 import PullToRefresh from '../components/PullToRefresh';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Play, TrendingUp, Calendar, Weight, Dumbbell, Flame, Plus, Activity } from 'lucide-react';
+import { Play, TrendingUp, Calendar, Weight, Dumbbell, Flame, Plus, Activity, CalendarCheck, Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
 
 const RecoveryHeatmap = lazy(() => import('../components/RecoveryHeatmap'));
@@ -19,8 +21,17 @@ interface DashboardPageProps {
   onNavigateToNewWorkout: () => void;
   onNavigateToHistory: () => void;
   onNavigateToProgress: () => void;
+  onWorkoutGenerated: (workout: WorkoutExercise[], type: WorkoutType) => void;
 }
 
+const PLANNED_SESSION_LABELS: Record<PlannedSession, string> = {
+  fullBody: 'Full Body',
+  upperBody: 'Upper Body',
+  lowerBody: 'Lower Body',
+  push: 'Push',
+  pull: 'Pull',
+};
+
 // Feature flag for weighted leg average calculation
 const USE_WEIGHTED_LEG_AVG = false;
 
@@ -42,12 +53,15 @@ function convertTimestamp(timestamp: bigint): number {
   return numTimestamp;
 }
 
-export default function DashboardPage({ userProfile, onNavigateToNewWorkout, onNavigateToHistory, onNavigateToProgress }: DashboardPageProps) {
+export default function DashboardPage({ userProfile, onNavigateToNewWorkout, onNavigateToHistory, onNavigateToProgress, onWorkoutGenerated }: DashboardPageProps) {
   const [showBodyweightModal, setShowBodyweightModal] = useState(false);
   const queryClient = useQueryClient();
   
   const { data: workoutHistory = [], isLoading: historyLoading } = useGetWorkoutHistory();
   const { data: legSubgroupRecovery, isLoading: legSubgroupLoading } = useGetLegSubgroupRecovery();
+  const { data: weeklyPlan } = useGetWeeklyPlan();
+  const { data: pendingWrites = 0 } = useGetOutboxPendingCount();
+  const generateWorkout = useGenerateWorkout();
 
   const handleVibrate = () => {
     if ('vibrate' in navigator) {
@@ -60,6 +74,8 @@ export default function DashboardPage({ userProfile, onNavigateToNewWorkout, onN
     await queryClient.invalidateQueries({ queryKey: ['recoveryState'] });
     await queryClient.invalidateQueries({ queryKey: ['legSubgroupRecovery'] });
     await queryClient.invalidateQueries({ queryKey: ['currentUserProfile'] });
+    await queryClient.invalidateQueries({ queryKey: ['weeklyPlan'] });
+    await queryClient.invalidateQueries({ queryKey: ['programProgress'] });
     toast.success('Dashboard refreshed');
   };
 
@@ -169,13 +185,42 @@ export default function DashboardPage({ userProfile, onNavigateToNewWorkout, onN
     };
   };
 
+  // The plan is a rotation, so a missed day simply leaves its session up next.
+  const getPlannedSession = () => {
+    if (!weeklyPlan || weeklyPlan.sessions.length === 0) return null;
+
+    const perWeek = weeklyPlan.sessions.length;
+    const completed = Number(weeklyPlan.completedSessions);
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const trainedToday = workoutHistory.some((w) => convertTimestamp(w.timestamp) >= today.getTime());
+
+    return {
+      session: weeklyPlan.sessions[completed % perWeek],
+      sessionNumber: (completed % perWeek) + 1,
+      perWeek,
+      trainedToday,
+    };
+  };
+
+  const handleStartPlannedSession = async (session: PlannedSession) => {
+    handleVibrate();
+    try {
+      const workout = await generateWorkout.mutateAsync({ workoutType: session });
+      onWorkoutGenerated(workout.exercises, session);
+    } catch (error) {
+      console.error('Failed to generate planned workout:', error);
+    }
+  };
+
   const streak = historyLoading ? 0 : calculateStreak();
+  const plannedSession = historyLoading ? null : getPlannedSession();
   const weeklyStats = historyLoading ? { workoutsCount: 0, totalVolume: 0, volumeGain: 0 } : calculateWeeklyStats();
 
   return (
     <PullToRefresh onRefresh={handleRefresh}>
       <div className="flex min-h-screen flex-col bg-background pb-24">
-        <StatusBar streak={streak} />
+        <StatusBar streak={streak} pendingWrites={pendingWrites} />
 
         <main className="flex-1 px-4 py-6">
           <div className="mx-auto max-w-2xl space-y-6">
@@ -246,6 +291,48 @@ export default function DashboardPage({ userProfile, onNavigateToNewWorkout, onN
               )}
             </div>
 
+            {plannedSession && (
+              <Card className="shadow-sm border-2 border-accent/30 transition-all hover:shadow-glow-accent">
+                <CardHeader className="pb-3">
+                  <CardDescription className="flex items-center gap-2 text-base">
+                    <CalendarCheck className="h-5 w-5 text-accent" />
+                    {plannedSession.trainedToday ? 'Next Planned Session' : "Today's Planned Session"}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex items-baseline justify-between gap-2">
+                    <p className="text-3xl font-bold">{PLANNED_SESSION_LABELS[plannedSession.session]}</p>
+                    <Badge variant="secondary" className="text-sm">
+                      Session {plannedSession.sessionNumber} of {plannedSession.perWeek}
+                    </Badge>
+                  </div>
+                  {plannedSession.trainedToday && (
+                    <p className="text-sm text-muted-foreground">
+                      You've already trained today. This session is up next.
+                    </p>
+                  )}
+                  <Button
+                    size="lg"
+                    variant={plannedSession.trainedToday ? 'outline' : 'default'}
+                    disabled={generateWorkout.isPending}
+                    onClick={() => handleStartPlannedSession(plannedSession.session)}
+                    className="w-full text-lg font-semibold h-14 rounded-2xl transition-all hover:scale-105 active:scale-95"
+                  >
+                    {generateWorkout.isPending ? (
+                      <>
+                        <Loader2 className="mr-2 h-6 w-6 animate-spin" />
+                        Generating...
+                      </>
+                    ) : (
+                      'Generate Planned Workout'
+                    )}
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+
+            <ProgramCard />
+
             <Card className="overflow-hidden border-2 border-primary/30 bg-gradient-to-br from-primary/10 to-accent/10 shadow-glow-primary transition-all hover:shadow-glow-primary hover:scale-[1.01] active:scale-[0.99]">
               <CardContent className="p-8">
                 <div className="flex flex-col items-center gap-6 text-center">
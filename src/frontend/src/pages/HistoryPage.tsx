@@ -1,12 +1,28 @@
-import { useMemo, lazy, Suspense } from 'react';
+import { useMemo, useState, lazy, Suspense } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
-import { useGetWorkoutHistory } from '../hooks/useQueries';
+import { useGetWorkoutHistory, useGetGymSettings, useUpdateWorkout, useDeleteWorkout } from '../hooks/useQueries';
 import { UserProfile } from '../backend';
+import { Workout } from '../types';
+import { templateExercisesFromWorkout } from '../lib/templates';
 import PullToRefresh from '../components/PullToRefresh';
+import SaveTemplateDialog from '../components/SaveTemplateDialog';
+import WorkoutEditor from '../components/WorkoutEditor';
+import FailedWorkoutsCard from '../components/FailedWorkoutsCard';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Dumbbell, TrendingUp, Calendar as CalendarIcon } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Dumbbell, TrendingUp, MapPin, BookmarkPlus, Pencil, Trash2, Calendar as CalendarIcon } from 'lucide-react';
 import { toast } from 'sonner';
 
 // Lazy load Calendar component
@@ -38,7 +54,35 @@ function convertTimestamp(timestamp: bigint): number {
 
 export default function HistoryPage({ userProfile, onBack }: HistoryPageProps) {
   const { data: workoutHistory = [], isLoading } = useGetWorkoutHistory();
+  const { data: gymSettings } = useGetGymSettings();
   const queryClient = useQueryClient();
+  const [gymFilter, setGymFilter] = useState<number | null>(null);
+  const [templateSource, setTemplateSource] = useState<Workout | null>(null);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<Workout | null>(null);
+  const updateWorkout = useUpdateWorkout();
+  const deleteWorkout = useDeleteWorkout();
+
+  const handleUpdate = async (workout: Workout) => {
+    if (workout.id === undefined) return;
+    await updateWorkout.mutateAsync({ id: workout.id, workout });
+    setEditingId(null);
+  };
+
+  const handleDelete = async () => {
+    if (pendingDelete?.id === undefined) return;
+    await deleteWorkout.mutateAsync(pendingDelete.id);
+    setPendingDelete(null);
+  };
+
+  const gyms = gymSettings?.gyms ?? [];
+  const gymNames = useMemo(
+    () => new Map(gyms.map((gym) => [Number(gym.id), gym.name])),
+    [gyms]
+  );
+  const filteredHistory = gymFilter === null
+    ? workoutHistory
+    : workoutHistory.filter((workout) => workout.gymId === gymFilter);
 
   const handleRefresh = async () => {
     await queryClient.invalidateQueries({ queryKey: ['workoutHistory'] });
@@ -137,6 +181,8 @@ export default function HistoryPage({ userProfile, onBack }: HistoryPageProps) {
               <p className="text-lg text-muted-foreground">Your training journey</p>
             </div>
 
+            <FailedWorkoutsCard />
+
             {/* Calendar View - Lazy loaded */}
             <Card className="shadow-sm border-border/50">
               <CardHeader>
@@ -172,6 +218,29 @@ export default function HistoryPage({ userProfile, onBack }: HistoryPageProps) {
                 <CardDescription>Your last 5 training sessions</CardDescription>
               </CardHeader>
               <CardContent>
+                {gyms.length > 0 && (
+                  <div className="mb-4 flex flex-wrap gap-2">
+                    <Button
+                      size="sm"
+                      variant={gymFilter === null ? 'default' : 'outline'}
+                      className="rounded-full"
+                      onClick={() => setGymFilter(null)}
+                    >
+                      All gyms
+                    </Button>
+                    {gyms.map((gym) => (
+                      <Button
+                        key={Number(gym.id)}
+                        size="sm"
+                        variant={gymFilter === Number(gym.id) ? 'default' : 'outline'}
+                        className="rounded-full"
+                        onClick={() => setGymFilter(Number(gym.id))}
+                      >
+                        {gym.name}
+                      </Button>
+                    ))}
+                  </div>
+                )}
                 {isLoading ? (
                   <div className="space-y-4">
                     {[1, 2, 3, 4, 5].map((i) => (
@@ -195,19 +264,21 @@ export default function HistoryPage({ userProfile, onBack }: HistoryPageProps) {
                       </Card>
                     ))}
                   </div>
-                ) : workoutHistory.length === 0 ? (
+                ) : filteredHistory.length === 0 ? (
                   <div className="flex flex-col items-center justify-center py-12 text-center">
                     <div className="mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-muted">
                       <TrendingUp className="h-8 w-8 text-muted-foreground" />
                     </div>
                     <p className="text-sm text-muted-foreground">
-                      No workouts yet. Start your first session to see your progress!
+                      {gymFilter === null
+                        ? 'No workouts yet. Start your first session to see your progress!'
+                        : 'No workouts recorded at this gym yet.'}
                     </p>
                   </div>
                 ) : (
                   <div className="space-y-4">
-                    {workoutHistory.map((workout, idx) => (
-                      <Card key={idx} className="border-2 border-border/50 transition-all hover:border-primary/50 active:scale-[0.98]">
+                    {filteredHistory.map((workout, idx) => (
+                      <Card key={workout.id ?? idx} className="border-2 border-border/50 transition-all hover:border-primary/50">
                         <CardHeader className="pb-3">
                           <div className="flex items-start justify-between">
                             <div className="flex items-center gap-3">
@@ -221,17 +292,65 @@ export default function HistoryPage({ userProfile, onBack }: HistoryPageProps) {
                                 <CardDescription className="text-xs">
                                   {formatDate(workout.timestamp)}
                                 </CardDescription>
+                                {workout.gymId !== undefined && gymNames.has(workout.gymId) && (
+                                  <p className="mt-1 flex items-center gap-1 text-xs text-muted-foreground">
+                                    <MapPin className="h-3 w-3" />
+                                    {gymNames.get(workout.gymId)}
+                                  </p>
+                                )}
                               </div>
                             </div>
-                            {workout.totalVolume > 0 && (
-                              <Badge variant="default" className="text-xs">
-                                {formatVolume(workout.totalVolume)} total
-                              </Badge>
-                            )}
+                            <div className="flex items-center gap-1">
+                              {workout.totalVolume > 0 && (
+                                <Badge variant="default" className="text-xs">
+                                  {formatVolume(workout.totalVolume)} total
+                                </Badge>
+                              )}
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8"
+                                title="Save as template"
+                                onClick={() => setTemplateSource(workout)}
+                              >
+                                <BookmarkPlus className="h-4 w-4" />
+                              </Button>
+                              {workout.id !== undefined && (
+                                <>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8"
+                                    title="Edit workout"
+                                    disabled={editingId !== null}
+                                    onClick={() => setEditingId(workout.id ?? null)}
+                                  >
+                                    <Pencil className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    className="h-8 w-8 text-destructive"
+                                    title="Delete workout"
+                                    onClick={() => setPendingDelete(workout)}
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                </>
+                              )}
+                            </div>
                           </div>
                         </CardHeader>
                         <CardContent className="space-y-3">
-                          {workout.exercises.map((ex, exIdx) => (
+                          {editingId !== null && workout.id === editingId ? (
+                            <WorkoutEditor
+                              workout={workout}
+                              userProfile={userProfile}
+                              isSaving={updateWorkout.isPending}
+                              onSave={handleUpdate}
+                              onCancel={() => setEditingId(null)}
+                            />
+                          ) : workout.exercises.map((ex, exIdx) => (
                             <div key={exIdx} className="rounded-lg border border-border/50 bg-muted/30 p-3">
                               <div className="mb-2 flex items-center justify-between">
                                 <p className="text-sm font-semibold">{ex.exercise.name}</p>
@@ -269,6 +388,38 @@ export default function HistoryPage({ userProfile, onBack }: HistoryPageProps) {
             </Card>
           </div>
         </main>
+
+        <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete this workout?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {pendingDelete ? `${formatDate(pendingDelete.timestamp)} · ` : ''}
+                Recovery and training volume will be recalculated without it. This cannot be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                disabled={deleteWorkout.isPending}
+                onClick={(e) => {
+                  e.preventDefault();
+                  handleDelete();
+                }}
+              >
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+
+        <SaveTemplateDialog
+          open={templateSource !== null}
+          onOpenChange={(open) => !open && setTemplateSource(null)}
+          exercises={templateSource ? templateExercisesFromWorkout(templateSource.exercises) : []}
+          defaultName={templateSource ? `Workout from ${formatDate(templateSource.timestamp)}` : ''}
+        />
       </div>
     </PullToRefresh>
   );
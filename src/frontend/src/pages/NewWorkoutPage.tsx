@@ -1,29 +1,30 @@
 import { useState } from 'react';
 import { WorkoutExercise } from '../types';
-import { UserProfile } from '../backend';
-import { 
-  useGenerateFullBodyWorkout, 
-  useGenerateUpperBodyWorkout, 
-  useGenerateLowerBodyWorkout,
-  WorkoutType 
-} from '../hooks/useQueries';
+import { UserProfile, WorkoutSpec } from '../backend';
+import { useGenerateWorkout, useGetGymSettings, WorkoutType } from '../hooks/useQueries';
+import { defaultGymId } from '../lib/equipment';
+import { buildCustomSplitSpec, SPLIT_TARGET_GROUPS, MAX_EXERCISES_PER_GROUP } from '../lib/workoutSplits';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, Dumbbell, Loader2 } from 'lucide-react';
+import { ArrowLeft, BookMarked, ChevronRight, Dumbbell, Loader2, MapPin, Minus, Plus, SlidersHorizontal } from 'lucide-react';
 
 interface NewWorkoutPageProps {
   userProfile: UserProfile;
   onBack: () => void;
-  onWorkoutGenerated: (workout: WorkoutExercise[], type: WorkoutType) => void;
+  onWorkoutGenerated: (workout: WorkoutExercise[], type: WorkoutType, spec?: WorkoutSpec, gymId?: number) => void;
+  onOpenTemplates: () => void;
 }
 
-export default function NewWorkoutPage({ userProfile, onBack, onWorkoutGenerated }: NewWorkoutPageProps) {
+export default function NewWorkoutPage({ userProfile, onBack, onWorkoutGenerated, onOpenTemplates }: NewWorkoutPageProps) {
   const [selectedType, setSelectedType] = useState<WorkoutType | null>(null);
+  const [customCounts, setCustomCounts] = useState<Record<string, number>>({});
+  const [pickedGymId, setPickedGymId] = useState<number | undefined>(undefined);
   
-  const generateFullBody = useGenerateFullBodyWorkout();
-  const generateUpperBody = useGenerateUpperBodyWorkout();
-  const generateLowerBody = useGenerateLowerBodyWorkout();
+  const generateWorkout = useGenerateWorkout();
+  const { data: gymSettings } = useGetGymSettings();
+  const gyms = gymSettings?.gyms ?? [];
+  const selectedGymId = pickedGymId ?? defaultGymId(gymSettings);
 
   const handleVibrate = () => {
     if ('vibrate' in navigator) {
@@ -36,18 +37,10 @@ export default function NewWorkoutPage({ userProfile, onBack, onWorkoutGenerated
     setSelectedType(type);
 
     try {
-      let workout;
+      const spec = type === 'custom' ? buildCustomSplitSpec(customCounts) : undefined;
+      const workout = await generateWorkout.mutateAsync({ workoutType: type, spec, gymId: selectedGymId });
       
-      if (type === 'fullBody') {
-        workout = await generateFullBody.mutateAsync();
-      } else if (type === 'upperBody') {
-        workout = await generateUpperBody.mutateAsync();
-      } else {
-        // Both lowerBody and lowerBodyWithCore use the unified generator
-        workout = await generateLowerBody.mutateAsync();
-      }
-      
-      onWorkoutGenerated(workout.exercises, type);
+      onWorkoutGenerated(workout.exercises, type, spec, selectedGymId);
     } catch (error) {
       console.error('Failed to generate workout:', error);
     } finally {
@@ -55,6 +48,16 @@ export default function NewWorkoutPage({ userProfile, onBack, onWorkoutGenerated
     }
   };
 
+  const adjustCustomCount = (group: string, delta: number) => {
+    handleVibrate();
+    setCustomCounts((prev) => {
+      const next = Math.min(MAX_EXERCISES_PER_GROUP, Math.max(0, (prev[group] ?? 0) + delta));
+      return { ...prev, [group]: next };
+    });
+  };
+
+  const customExerciseCount = Object.values(customCounts).reduce((sum, count) => sum + count, 0);
+
   const workoutTypes = [
     {
       type: 'fullBody' as WorkoutType,
@@ -80,9 +83,25 @@ export default function NewWorkoutPage({ userProfile, onBack, onWorkoutGenerated
       duration: '45-75 min',
       exercises: '8-10 exercises',
     },
+    {
+      type: 'push' as WorkoutType,
+      title: 'Push',
+      description: 'Pressing day for chest, shoulders, and triceps',
+      muscleGroups: ['Chest', 'Shoulders', 'Triceps'],
+      duration: '45-70 min',
+      exercises: '6-8 exercises',
+    },
+    {
+      type: 'pull' as WorkoutType,
+      title: 'Pull',
+      description: 'Pulling day for back, biceps, and rear delts',
+      muscleGroups: ['Back', 'Biceps', 'Rear Delts'],
+      duration: '45-70 min',
+      exercises: '6-8 exercises',
+    },
   ];
 
-  const isGenerating = generateFullBody.isPending || generateUpperBody.isPending || generateLowerBody.isPending;
+  const isGenerating = generateWorkout.isPending;
 
   return (
     <div className="flex min-h-screen flex-col bg-background pb-24">
@@ -116,6 +135,62 @@ export default function NewWorkoutPage({ userProfile, onBack, onWorkoutGenerated
             </p>
           </div>
 
+          {gyms.length > 0 && (
+            <div className="space-y-2">
+              <p className="flex items-center gap-2 text-sm font-medium text-muted-foreground">
+                <MapPin className="h-4 w-4" />
+                Training at
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {gyms.map((gym) => {
+                  const id = Number(gym.id);
+                  return (
+                    <Button
+                      key={id}
+                      type="button"
+                      size="sm"
+                      variant={selectedGymId === id ? 'default' : 'outline'}
+                      disabled={isGenerating}
+                      onClick={() => {
+                        handleVibrate();
+                        setPickedGymId(id);
+                      }}
+                      className="rounded-full"
+                    >
+                      {gym.name}
+                    </Button>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <Card
+            className="border-2 border-border/50 transition-all hover:border-primary/50 active:scale-[0.99] cursor-pointer"
+            onClick={() => {
+              if (isGenerating) return;
+              handleVibrate();
+              onOpenTemplates();
+            }}
+          >
+            <CardHeader>
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center gap-3">
+                  <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-primary/20 shadow-glow-primary">
+                    <BookMarked className="h-6 w-6 text-primary" />
+                  </div>
+                  <div>
+                    <CardTitle className="text-2xl">My Templates</CardTitle>
+                    <CardDescription className="text-base mt-1">
+                      Start a saved workout with your own exercises and targets
+                    </CardDescription>
+                  </div>
+                </div>
+                <ChevronRight className="h-5 w-5 text-muted-foreground" />
+              </div>
+            </CardHeader>
+          </Card>
+
           <div className="grid gap-4 sm:grid-cols-1">
             {workoutTypes.map((workout) => (
               <Card
@@ -172,6 +247,76 @@ export default function NewWorkoutPage({ userProfile, onBack, onWorkoutGenerated
                 </CardContent>
               </Card>
             ))}
+
+            <Card className="border-2 border-border/50">
+              <CardHeader>
+                <div className="flex items-center gap-3">
+                  <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-primary/20 shadow-glow-primary">
+                    <SlidersHorizontal className="h-6 w-6 text-primary" />
+                  </div>
+                  <div>
+                    <CardTitle className="text-2xl">Custom Split</CardTitle>
+                    <CardDescription className="text-base mt-1">
+                      Pick the muscle groups and how many exercises each gets
+                    </CardDescription>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-2 gap-2">
+                  {SPLIT_TARGET_GROUPS.map((group) => {
+                    const count = customCounts[group] ?? 0;
+                    return (
+                      <div
+                        key={group}
+                        className={`flex items-center justify-between rounded-xl border px-3 py-2 ${count > 0 ? 'border-primary/50 bg-primary/10' : 'border-border/50'}`}
+                      >
+                        <span className="text-sm font-medium">{group}</span>
+                        <div className="flex items-center gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 rounded-lg"
+                            disabled={count === 0 || isGenerating}
+                            onClick={() => adjustCustomCount(group, -1)}
+                          >
+                            <Minus className="h-3 w-3" />
+                          </Button>
+                          <span className="w-4 text-center text-sm font-semibold">{count}</span>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 rounded-lg"
+                            disabled={count >= MAX_EXERCISES_PER_GROUP || isGenerating}
+                            onClick={() => adjustCustomCount(group, 1)}
+                          >
+                            <Plus className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+                <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                  <span>💪 Up to {customExerciseCount} exercises</span>
+                </div>
+                <Button
+                  size="lg"
+                  disabled={isGenerating || customExerciseCount === 0}
+                  className="w-full text-lg font-semibold shadow-glow-primary transition-all hover:shadow-glow-primary hover:scale-105 active:scale-95 h-14 rounded-2xl"
+                  onClick={() => handleGenerateWorkout('custom')}
+                >
+                  {isGenerating && selectedType === 'custom' ? (
+                    <>
+                      <Loader2 className="mr-2 h-6 w-6 animate-spin" />
+                      Generating...
+                    </>
+                  ) : (
+                    'Generate Custom Split'
+                  )}
+                </Button>
+              </CardContent>
+            </Card>
           </div>
         </div>
       </main>
@@ -5,20 +5,29 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Gender, WeightUnit, TrainingFrequency } from '../backend';
+import { Gender, WeightUnit, TrainingFrequency, TrainingGoal } from '../backend';
+import { TRAINING_GOAL_OPTIONS, GOAL_DEFAULT_REST_SECONDS } from '../lib/trainingGoals';
+import EquipmentPicker from '../components/EquipmentPicker';
 import { toast } from 'sonner';
-import { User, Weight, Calendar, Timer, Dumbbell } from 'lucide-react';
+import { User, Weight, Calendar, Timer, Dumbbell, Target, Warehouse } from 'lucide-react';
 
 export default function OnboardingPage() {
   const [gender, setGender] = useState<Gender>(Gender.male);
   const [bodyweight, setBodyweight] = useState<string>('70');
   const [weightUnit, setWeightUnit] = useState<WeightUnit>(WeightUnit.kg);
   const [trainingFrequency, setTrainingFrequency] = useState<TrainingFrequency>(TrainingFrequency.fourDays);
+  const [trainingGoal, setTrainingGoal] = useState<TrainingGoal>(TrainingGoal.generalFitness);
+  const [availableEquipment, setAvailableEquipment] = useState<string[]>([]);
   const [restTime, setRestTime] = useState<string>('90');
   const [muscleGroupRestInterval, setMuscleGroupRestInterval] = useState<string>('5');
 
   const saveProfile = useSaveCallerUserProfile();
 
+  const handleGoalChange = (goal: TrainingGoal) => {
+    setTrainingGoal(goal);
+    setRestTime(GOAL_DEFAULT_REST_SECONDS[goal].toString());
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -46,6 +55,8 @@ export default function OnboardingPage() {
         bodyweight: weight,
         weightUnit,
         trainingFrequency,
+        trainingGoal,
+        availableEquipment,
         darkMode: false,
         restTime: BigInt(rest),
         muscleGroupRestInterval: BigInt(muscleGroupRest),
@@ -137,6 +148,38 @@ export default function OnboardingPage() {
                 </Select>
               </div>
 
+              {/* Training Goal */}
+              <div className="space-y-2">
+                <Label htmlFor="goal" className="flex items-center gap-2 text-base">
+                  <Target className="h-4 w-4 text-primary" />
+                  Training Goal
+                </Label>
+                <Select value={trainingGoal} onValueChange={(value) => handleGoalChange(value as TrainingGoal)}>
+                  <SelectTrigger id="goal" className="h-12">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TRAINING_GOAL_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-muted-foreground">
+                  {TRAINING_GOAL_OPTIONS.find((option) => option.value === trainingGoal)?.description}
+                </p>
+              </div>
+
+              {/* Equipment */}
+              <div className="space-y-2">
+                <Label className="flex items-center gap-2 text-base">
+                  <Warehouse className="h-4 w-4 text-primary" />
+                  Available Equipment
+                </Label>
+                <EquipmentPicker id="full-gym" value={availableEquipment} onChange={setAvailableEquipment} />
+              </div>
+
               {/* Rest Time Between Sets */}
               <div className="space-y-2">
                 <Label htmlFor="rest-time" className="flex items-center gap-2 text-base">
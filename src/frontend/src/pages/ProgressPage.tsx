@@ -1,13 +1,15 @@
+import { useState } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
 import { useGetRecoveryState, useGetWeeklyMuscleGroupVolume } from '../hooks/useQueries';
 import { UserProfile } from '../backend';
 import { RecoveryState } from '../types';
+import { getWeekRange } from '../lib/timestampUtils';
 import PullToRefresh from '../components/PullToRefresh';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
-import { Activity, Loader2 } from 'lucide-react';
+import { Activity, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
 
 interface ProgressPageProps {
@@ -17,12 +19,13 @@ interface ProgressPageProps {
 
 export default function ProgressPage({ userProfile, onBack }: ProgressPageProps) {
   const { data: recoveryState, isLoading: recoveryLoading } = useGetRecoveryState();
-  const { data: weeklyVolume = [], isLoading: volumeLoading } = useGetWeeklyMuscleGroupVolume();
+  const [weekOffset, setWeekOffset] = useState(0);
+  const { data: weeklyVolume = [], isLoading: volumeLoading } = useGetWeeklyMuscleGroupVolume(weekOffset);
   const queryClient = useQueryClient();
 
   const handleRefresh = async () => {
     await queryClient.invalidateQueries({ queryKey: ['recoveryState'] });
-    await queryClient.invalidateQueries({ queryKey: ['weeklyMuscleGroupVolume'] });
+    await queryClient.invalidateQueries({ queryKey: ['muscleGroupVolume'] });
     toast.success('Progress data refreshed');
   };
 
@@ -68,6 +71,21 @@ export default function ProgressPage({ userProfile, onBack }: ProgressPageProps)
     return `${displayVolume.toFixed(0)} ${userProfile.weightUnit}`;
   };
 
+  const getWeekLabel = (offset: number): string => {
+    if (offset === 0) return 'This week';
+    if (offset === -1) return 'Last week';
+    const { start, end } = getWeekRange(offset);
+    const lastDay = new Date(end);
+    lastDay.setDate(end.getDate() - 1);
+    const format = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+    return `${format(start)} – ${format(lastDay)}`;
+  };
+
+  // Bodyweight-only weeks have no tonnage, so fall back to hard sets for the bar length
+  const hasTonnage = weeklyVolume.some(v => v.tonnage > 0);
+  const barValue = (volume: { tonnage: number; hardSets: number }) => hasTonnage ? volume.tonnage : volume.hardSets;
+  const maxBarValue = Math.max(0, ...weeklyVolume.map(barValue));
+
   return (
     <PullToRefresh onRefresh={handleRefresh}>
       <div className="flex min-h-screen flex-col bg-background pb-24">
@@ -180,8 +198,32 @@ export default function ProgressPage({ userProfile, onBack }: ProgressPageProps)
             {/* Weekly Volume Card */}
             <Card className="shadow-sm border-border/50">
               <CardHeader>
-                <CardTitle>Weekly Training Volume</CardTitle>
-                <CardDescription>Total volume per muscle group this week</CardDescription>
+                <div className="flex items-center justify-between gap-2">
+                  <CardTitle>Weekly Training Volume</CardTitle>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => setWeekOffset(offset => offset - 1)}
+                      aria-label="Previous week"
+                    >
+                      <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <span className="min-w-24 text-center text-sm font-medium">{getWeekLabel(weekOffset)}</span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => setWeekOffset(offset => Math.min(0, offset + 1))}
+                      disabled={weekOffset === 0}
+                      aria-label="Next week"
+                    >
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                <CardDescription>Tonnage and hard sets per muscle group</CardDescription>
               </CardHeader>
               <CardContent>
                 {volumeLoading ? (
@@ -198,21 +240,25 @@ export default function ProgressPage({ userProfile, onBack }: ProgressPageProps)
                   </div>
                 ) : weeklyVolume.length === 0 ? (
                   <div className="text-center py-8 text-muted-foreground">
-                    No training data for this week
+                    No training data for {weekOffset === 0 ? 'this week' : 'this period'}
                   </div>
                 ) : (
                   <div className="space-y-4">
                     {weeklyVolume.map((volume) => {
-                      const maxVolume = Math.max(...weeklyVolume.map(v => v.weeklyVolume));
-                      const percentage = maxVolume > 0 ? (volume.weeklyVolume / maxVolume) * 100 : 0;
+                      const percentage = maxBarValue > 0 ? (barValue(volume) / maxBarValue) * 100 : 0;
                       
                       return (
                         <div key={volume.muscleGroup} className="space-y-2">
                           <div className="flex items-center justify-between">
                             <span className="text-sm font-medium">{volume.muscleGroup}</span>
-                            <span className="text-sm font-semibold text-primary">
-                              {formatVolume(volume.weeklyVolume)}
-                            </span>
+                            <div className="flex items-center gap-2">
+                              <Badge variant="outline" className="text-xs">
+                                {volume.hardSets} hard set{volume.hardSets !== 1 ? 's' : ''}
+                              </Badge>
+                              <span className="text-sm font-semibold text-primary">
+                                {formatVolume(volume.tonnage)}
+                              </span>
+                            </div>
                           </div>
                           <div className="relative h-2 w-full overflow-hidden rounded-full bg-muted">
                             <div
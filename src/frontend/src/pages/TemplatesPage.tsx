@@ -0,0 +1,294 @@
+import { useState } from 'react';
+import { useGetWorkoutTemplates, useSaveWorkoutTemplate, useDeleteWorkoutTemplate } from '../hooks/useQueries';
+import { UserProfile } from '../backend';
+import { TemplateExercise, WorkoutTemplate } from '../types';
+import { TEMPLATE_NAME_MAX_LENGTH } from '../lib/templates';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ArrowDown, ArrowLeft, ArrowUp, BookMarked, Loader2, Pencil, Play, Trash2, X } from 'lucide-react';
+
+interface TemplatesPageProps {
+  userProfile: UserProfile;
+  onBack: () => void;
+  onStartTemplate: (template: WorkoutTemplate) => void;
+}
+
+interface TemplateDraft {
+  id: number;
+  name: string;
+  exercises: TemplateExercise[];
+}
+
+const LB_PER_KG = 2.20462;
+
+export default function TemplatesPage({ userProfile, onBack, onStartTemplate }: TemplatesPageProps) {
+  const { data: templates = [], isLoading } = useGetWorkoutTemplates();
+  const saveTemplate = useSaveWorkoutTemplate();
+  const deleteTemplate = useDeleteWorkoutTemplate();
+  const [draft, setDraft] = useState<TemplateDraft | null>(null);
+
+  const isLb = userProfile.weightUnit === 'lb';
+  // Targets are stored in kg like every other weight; the editor works in the user's unit
+  const toDisplayWeight = (kg: number) => Math.round((isLb ? kg * LB_PER_KG : kg) * 10) / 10;
+  const fromDisplayWeight = (value: number) => (isLb ? value / LB_PER_KG : value);
+
+  const handleVibrate = () => {
+    if ('vibrate' in navigator) {
+      navigator.vibrate(10);
+    }
+  };
+
+  const updateExercise = (index: number, changes: Partial<TemplateExercise>) => {
+    if (!draft) return;
+    setDraft({
+      ...draft,
+      exercises: draft.exercises.map((te, i) => (i === index ? { ...te, ...changes } : te)),
+    });
+  };
+
+  const moveExercise = (index: number, offset: number) => {
+    if (!draft) return;
+    const target = index + offset;
+    if (target < 0 || target >= draft.exercises.length) return;
+    const exercises = [...draft.exercises];
+    [exercises[index], exercises[target]] = [exercises[target], exercises[index]];
+    setDraft({ ...draft, exercises });
+  };
+
+  const removeExercise = (index: number) => {
+    if (!draft) return;
+    setDraft({ ...draft, exercises: draft.exercises.filter((_, i) => i !== index) });
+  };
+
+  const draftIsValid =
+    !!draft &&
+    draft.name.trim().length > 0 &&
+    draft.exercises.length > 0 &&
+    draft.exercises.every((te) => te.sets > 0 && te.reps > 0 && te.targetWeight >= 0);
+
+  const handleSave = async () => {
+    if (!draft || !draftIsValid) return;
+    await saveTemplate.mutateAsync({ id: draft.id, name: draft.name.trim(), exercises: draft.exercises });
+    setDraft(null);
+  };
+
+  const formatWeight = (kg: number) => `${toDisplayWeight(kg).toFixed(1)} ${userProfile.weightUnit}`;
+
+  return (
+    <div className="flex min-h-screen flex-col bg-background pb-24">
+      <header className="sticky top-0 z-50 border-b border-border/50 bg-background/95 backdrop-blur-sm">
+        <div className="container px-4">
+          <div className="flex h-16 items-center gap-4">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => {
+                handleVibrate();
+                if (draft) {
+                  setDraft(null);
+                } else {
+                  onBack();
+                }
+              }}
+              className="h-10 w-10 hover:bg-white/10 active:scale-90 rounded-2xl tap-target transition-all hover:shadow-glow-primary"
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <h1 className="text-xl font-bold">{draft ? 'Edit Template' : 'My Templates'}</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 px-4 py-6">
+        <div className="mx-auto max-w-2xl space-y-4">
+          {draft ? (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="template-edit-name" className="text-sm font-medium">
+                  Template name
+                </Label>
+                <Input
+                  id="template-edit-name"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                  maxLength={TEMPLATE_NAME_MAX_LENGTH}
+                  className="h-12 rounded-lg bg-input border-border"
+                />
+              </div>
+
+              {draft.exercises.map((te, idx) => (
+                <Card key={te.exercise.name} className="border border-border/50 bg-muted/30">
+                  <CardHeader className="pb-3">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <CardTitle className="truncate text-base">{te.exercise.name}</CardTitle>
+                        <CardDescription className="text-xs">{te.exercise.primaryMuscleGroup}</CardDescription>
+                      </div>
+                      <div className="flex shrink-0 gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          title="Move up"
+                          disabled={idx === 0}
+                          onClick={() => moveExercise(idx, -1)}
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          title="Move down"
+                          disabled={idx === draft.exercises.length - 1}
+                          onClick={() => moveExercise(idx, 1)}
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive"
+                          title="Remove exercise"
+                          onClick={() => removeExercise(idx)}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid grid-cols-3 gap-2">
+                      <div className="space-y-1">
+                        <Label className="text-xs text-muted-foreground">Sets</Label>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={te.sets}
+                          onChange={(e) => updateExercise(idx, { sets: Math.max(0, Math.round(Number(e.target.value))) })}
+                          className="h-11 rounded-lg bg-input border-border"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs text-muted-foreground">Reps</Label>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={te.reps}
+                          onChange={(e) => updateExercise(idx, { reps: Math.max(0, Math.round(Number(e.target.value))) })}
+                          className="h-11 rounded-lg bg-input border-border"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs text-muted-foreground">Target ({userProfile.weightUnit})</Label>
+                        <Input
+                          type="number"
+                          min={0}
+                          step={0.5}
+                          value={toDisplayWeight(te.targetWeight)}
+                          onChange={(e) => updateExercise(idx, { targetWeight: fromDisplayWeight(Math.max(0, Number(e.target.value))) })}
+                          className="h-11 rounded-lg bg-input border-border"
+                        />
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+
+              <div className="flex gap-2">
+                <Button variant="outline" className="flex-1 h-12" onClick={() => setDraft(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  className="flex-1 h-12"
+                  disabled={!draftIsValid || saveTemplate.isPending}
+                  onClick={handleSave}
+                >
+                  {saveTemplate.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Save Template'}
+                </Button>
+              </div>
+            </>
+          ) : isLoading ? (
+            <div className="space-y-4">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-32 w-full rounded-lg" />
+              ))}
+            </div>
+          ) : templates.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <div className="mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-muted">
+                <BookMarked className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <p className="text-sm text-muted-foreground">
+                No templates yet. Save one from a workout preview or from any workout in your history.
+              </p>
+            </div>
+          ) : (
+            templates.map((template) => (
+              <Card key={template.id} className="border-2 border-border/50">
+                <CardHeader className="pb-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <CardTitle className="truncate text-xl">{template.name}</CardTitle>
+                      <CardDescription className="text-sm">
+                        {template.exercises.length} exercise{template.exercises.length !== 1 ? 's' : ''} •{' '}
+                        {template.exercises.reduce((sum, te) => sum + te.sets, 0)} sets
+                      </CardDescription>
+                    </div>
+                    <div className="flex shrink-0 gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        title="Edit template"
+                        onClick={() => setDraft({ id: template.id, name: template.name, exercises: template.exercises })}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive"
+                        title="Delete template"
+                        disabled={deleteTemplate.isPending}
+                        onClick={() => deleteTemplate.mutate(template.id)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <div className="space-y-1">
+                    {template.exercises.map((te) => (
+                      <div key={te.exercise.name} className="flex items-center justify-between text-sm">
+                        <span className="truncate">{te.exercise.name}</span>
+                        <Badge variant="outline" className="shrink-0 text-xs">
+                          {te.sets} × {te.reps} @ {formatWeight(te.targetWeight)}
+                        </Badge>
+                      </div>
+                    ))}
+                  </div>
+                  <Button
+                    className="w-full h-12 rounded-2xl font-semibold shadow-glow-primary"
+                    onClick={() => {
+                      handleVibrate();
+                      onStartTemplate(template);
+                    }}
+                  >
+                    <Play className="mr-2 h-5 w-5 fill-current" />
+                    Start Workout
+                  </Button>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,17 +1,14 @@
 import { useState, useEffect } from 'react';
-import { WorkoutExercise, Exercise } from '../types';
-import { UserProfile } from '../backend';
-import { 
-  useGenerateFullBodyWorkout, 
-  useGenerateUpperBodyWorkout, 
-  useGenerateLowerBodyWorkout,
-  WorkoutType 
-} from '../hooks/useQueries';
+import { WorkoutExercise, Exercise, ExercisePrescription } from '../types';
+import { UserProfile, WorkoutSpec } from '../backend';
+import { useGenerateWorkout, useGetVarietySettings, useSetExercisePinned, WorkoutType } from '../hooks/useQueries';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, Play, RefreshCw, ExternalLink, Loader2, AlertCircle } from 'lucide-react';
+import { ArrowLeft, Play, RefreshCw, ExternalLink, Loader2, AlertCircle, Anchor, Pin, PinOff, BookmarkPlus } from 'lucide-react';
 import ExerciseChangeModal from '../components/ExerciseChangeModal';
+import SaveTemplateDialog from '../components/SaveTemplateDialog';
+import { templateExercisesFromWorkout } from '../lib/templates';
 import { toast } from 'sonner';
 import { buildOrderedSections, WorkoutSection } from '../lib/workoutPreviewSections';
 
@@ -19,15 +16,22 @@ interface WorkoutPreviewPageProps {
   userProfile: UserProfile;
   workout: WorkoutExercise[];
   workoutType: WorkoutType;
+  customSpec?: WorkoutSpec;
+  gymId?: number;
+  // Set when launched from a template; templates are fixed, so there is nothing to regenerate
+  templateName?: string;
   onBack: () => void;
   onStartWorkout: () => void;
-  onExerciseChange: (index: number, newExercise: Exercise) => void;
+  onExerciseChange: (index: number, newExercise: Exercise, prescription?: ExercisePrescription) => void;
 }
 
 export default function WorkoutPreviewPage({
   userProfile,
   workout,
   workoutType,
+  customSpec,
+  gymId,
+  templateName,
   onBack,
   onStartWorkout,
   onExerciseChange,
@@ -35,10 +39,13 @@ export default function WorkoutPreviewPage({
   const [changeModalOpen, setChangeModalOpen] = useState(false);
   const [selectedExerciseIdx, setSelectedExerciseIdx] = useState<number>(0);
   const [validationError, setValidationError] = useState<string | null>(null);
+  const [saveTemplateOpen, setSaveTemplateOpen] = useState(false);
   
-  const generateFullBody = useGenerateFullBodyWorkout();
-  const generateUpperBody = useGenerateUpperBodyWorkout();
-  const generateLowerBody = useGenerateLowerBodyWorkout();
+  const generateWorkout = useGenerateWorkout();
+  const { data: variety } = useGetVarietySettings();
+  const setPinned = useSetExercisePinned();
+  const pinnedNames = new Set(variety?.pinnedExercises ?? []);
+  const anchorNames = new Set((variety?.anchors.lifts ?? []).map((a) => a.exerciseName));
 
   // Minimal validation - only check for duplicates and basic structure
   useEffect(() => {
@@ -65,7 +72,7 @@ export default function WorkoutPreviewPage({
 
       // Validate each exercise structure
       for (const ex of workout) {
-        if (!ex.exercise.primaryMuscleGroup || !ex.exercise.equipmentType || !ex.exercise.demoUrl) {
+        if (!ex.exercise.primaryMuscleGroup || !ex.exercise.equipmentType) {
           setValidationError('Incomplete exercise data. Please regenerate.');
           return false;
         }
@@ -96,13 +103,7 @@ export default function WorkoutPreviewPage({
     handleVibrate();
     setValidationError(null);
     try {
-      if (workoutType === 'fullBody') {
-        await generateFullBody.mutateAsync();
-      } else if (workoutType === 'upperBody') {
-        await generateUpperBody.mutateAsync();
-      } else {
-        await generateLowerBody.mutateAsync();
-      }
+      await generateWorkout.mutateAsync({ workoutType, spec: customSpec, gymId });
     } catch (error) {
       console.error('Failed to regenerate workout:', error);
       setValidationError('Failed to regenerate workout. Please try again.');
@@ -115,8 +116,8 @@ export default function WorkoutPreviewPage({
     setChangeModalOpen(true);
   };
 
-  const handleExerciseSelected = (newExercise: Exercise) => {
-    onExerciseChange(selectedExerciseIdx, newExercise);
+  const handleExerciseSelected = (newExercise: Exercise, prescription: ExercisePrescription) => {
+    onExerciseChange(selectedExerciseIdx, newExercise, prescription);
     setValidationError(null);
   };
 
@@ -137,6 +138,7 @@ export default function WorkoutPreviewPage({
   };
 
   const getWorkoutTitle = () => {
+    if (templateName) return templateName;
     switch (workoutType) {
       case 'fullBody':
         return 'Full Body Workout';
@@ -146,6 +148,12 @@ export default function WorkoutPreviewPage({
         return 'Lower Body Workout';
       case 'lowerBodyWithCore':
         return 'Lower Body + Core Workout';
+      case 'push':
+        return 'Push Workout';
+      case 'pull':
+        return 'Pull Workout';
+      case 'custom':
+        return 'Custom Split Workout';
       default:
         return 'Workout';
     }
@@ -161,47 +169,74 @@ export default function WorkoutPreviewPage({
 
   // Build ordered sections with enforced muscle group order
   const orderedSections = buildOrderedSections(workout);
-  const isRegenerating = generateFullBody.isPending || generateUpperBody.isPending || generateLowerBody.isPending;
+  const isRegenerating = generateWorkout.isPending;
 
-  const renderExerciseCard = (ex: WorkoutExercise, idx: number) => (
-    <Card key={idx} className="border border-border/50 bg-muted/30">
-      <CardHeader className="pb-3">
-        <div className="flex items-start justify-between">
-          <div className="flex-1">
-            <CardTitle className="text-lg">{ex.exercise.name}</CardTitle>
-            <CardDescription className="text-sm mt-1">
-              {ex.sets} sets × {ex.reps} reps • {formatWeight(ex.suggestedWeight)}
-            </CardDescription>
+  const renderExerciseCard = (ex: WorkoutExercise, idx: number) => {
+    const isPinned = pinnedNames.has(ex.exercise.name);
+    return (
+      <Card key={idx} className="border border-border/50 bg-muted/30">
+        <CardHeader className="pb-3">
+          <div className="flex items-start justify-between">
+            <div className="flex-1">
+              <CardTitle className="text-lg">{ex.exercise.name}</CardTitle>
+              <CardDescription className="text-sm mt-1">
+                {ex.sets} sets × {ex.reps} reps • {formatWeight(ex.suggestedWeight)}
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant="ghost"
+                size="sm"
+                title={isPinned ? 'Unpin exercise' : 'Pin exercise'}
+                disabled={setPinned.isPending}
+                onClick={() => setPinned.mutate({ exerciseName: ex.exercise.name, pinned: !isPinned })}
+                className="hover:bg-white/10 active:scale-90 rounded-xl tap-target transition-all hover:shadow-glow-primary"
+              >
+                {isPinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleChangeExercise(idx)}
+                className="hover:bg-white/10 active:scale-90 rounded-xl tap-target transition-all hover:shadow-glow-primary"
+              >
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+              {ex.exercise.demoUrl && (
+                <a
+                  href={ex.exercise.demoUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center justify-center h-9 w-9 rounded-xl hover:bg-white/10 active:scale-90 tap-target transition-all hover:shadow-glow-primary"
+                >
+                  <ExternalLink className="h-4 w-4" />
+                </a>
+              )}
+            </div>
           </div>
-          <div className="flex gap-2">
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => handleChangeExercise(idx)}
-              className="hover:bg-white/10 active:scale-90 rounded-xl tap-target transition-all hover:shadow-glow-primary"
-            >
-              <RefreshCw className="h-4 w-4" />
-            </Button>
-            <a
-              href={ex.exercise.demoUrl}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="inline-flex items-center justify-center h-9 w-9 rounded-xl hover:bg-white/10 active:scale-90 tap-target transition-all hover:shadow-glow-primary"
-            >
-              <ExternalLink className="h-4 w-4" />
-            </a>
+        </CardHeader>
+        <CardContent>
+          <div className="flex items-center gap-2">
+            <Badge variant="outline" className="text-xs">
+              {ex.exercise.equipmentType}
+            </Badge>
+            {anchorNames.has(ex.exercise.name) && (
+              <Badge variant="secondary" className="gap-1 text-xs">
+                <Anchor className="h-3 w-3" />
+                Anchor
+              </Badge>
+            )}
+            {isPinned && (
+              <Badge variant="secondary" className="gap-1 text-xs">
+                <Pin className="h-3 w-3" />
+                Pinned
+              </Badge>
+            )}
           </div>
-        </div>
-      </CardHeader>
-      <CardContent>
-        <div className="flex items-center gap-2">
-          <Badge variant="outline" className="text-xs">
-            {ex.exercise.equipmentType}
-          </Badge>
-        </div>
-      </CardContent>
-    </Card>
-  );
+        </CardContent>
+      </Card>
+    );
+  };
 
   const renderSection = (section: WorkoutSection) => {
     // If section has subsections (Legs), render nested structure
@@ -287,19 +322,32 @@ export default function WorkoutPreviewPage({
                 </p>
               </div>
             </div>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={handleRegenerate}
-              disabled={isRegenerating}
-              className="hover:bg-white/10 active:scale-90 rounded-2xl tap-target transition-all hover:shadow-glow-primary"
-            >
-              {isRegenerating ? (
-                <Loader2 className="h-4 w-4 animate-spin" />
-              ) : (
-                <RefreshCw className="h-4 w-4" />
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                title="Save as template"
+                onClick={() => setSaveTemplateOpen(true)}
+                className="hover:bg-white/10 active:scale-90 rounded-2xl tap-target transition-all hover:shadow-glow-primary"
+              >
+                <BookmarkPlus className="h-4 w-4" />
+              </Button>
+              {!templateName && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleRegenerate}
+                  disabled={isRegenerating}
+                  className="hover:bg-white/10 active:scale-90 rounded-2xl tap-target transition-all hover:shadow-glow-primary"
+                >
+                  {isRegenerating ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <RefreshCw className="h-4 w-4" />
+                  )}
+                </Button>
               )}
-            </Button>
+            </div>
           </div>
         </div>
       </header>
@@ -313,25 +361,27 @@ export default function WorkoutPreviewPage({
                   <AlertCircle className="h-5 w-5 text-destructive flex-shrink-0" />
                   <div className="flex-1">
                     <p className="text-sm font-semibold text-destructive mb-3">{validationError}</p>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={handleRegenerate}
-                      disabled={isRegenerating}
-                      className="border-destructive/50 hover:bg-destructive/20"
-                    >
-                      {isRegenerating ? (
-                        <>
-                          <Loader2 className="mr-2 h-3 w-3 animate-spin" />
-                          Regenerating...
-                        </>
-                      ) : (
-                        <>
-                          <RefreshCw className="mr-2 h-3 w-3" />
-                          Try Again
-                        </>
-                      )}
-                    </Button>
+                    {!templateName && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleRegenerate}
+                        disabled={isRegenerating}
+                        className="border-destructive/50 hover:bg-destructive/20"
+                      >
+                        {isRegenerating ? (
+                          <>
+                            <Loader2 className="mr-2 h-3 w-3 animate-spin" />
+                            Regenerating...
+                          </>
+                        ) : (
+                          <>
+                            <RefreshCw className="mr-2 h-3 w-3" />
+                            Try Again
+                          </>
+                        )}
+                      </Button>
+                    )}
                   </div>
                 </div>
               </CardContent>
@@ -356,12 +406,22 @@ export default function WorkoutPreviewPage({
         </div>
       </div>
 
+      <SaveTemplateDialog
+        open={saveTemplateOpen}
+        onOpenChange={setSaveTemplateOpen}
+        exercises={templateExercisesFromWorkout(workout)}
+        defaultName={getWorkoutTitle()}
+      />
+
       {workout[selectedExerciseIdx] && (
         <ExerciseChangeModal
           open={changeModalOpen}
           onOpenChange={setChangeModalOpen}
           currentExercise={workout[selectedExerciseIdx].exercise}
           onExerciseSelected={handleExerciseSelected}
+          excludeNames={workout.map((we) => we.exercise.name)}
+          availableEquipment={userProfile.availableEquipment}
+          gymId={gymId}
         />
       )}
     </div>
@@ -1,7 +1,7 @@
 import { useState, useEffect, useRef } from 'react';
-import { useSaveWorkout, useGetWorkoutHistory, useSaveSetConfiguration, useGetSetConfiguration, useClearSetConfigurations, useUpdateSuggestedWeightDuringSession } from '../hooks/useQueries';
+import { useSaveWorkout, useGetWorkoutHistory, useSaveSetConfiguration, useGetSetConfiguration, useUpdateSuggestedWeightDuringSession } from '../hooks/useQueries';
 import { useWakeLock } from '../hooks/useWakeLock';
-import { WorkoutExercise, SetData, Exercise } from '../types';
+import { WorkoutExercise, SetData, Exercise, ExercisePrescription, SetConfiguration } from '../types';
 import { UserProfile } from '../backend';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
@@ -19,8 +19,9 @@ interface WorkoutSessionPageProps {
   userProfile: UserProfile;
   workout: WorkoutExercise[];
   workoutType?: WorkoutType;
+  gymId?: number;
   onBack: () => void;
-  onExerciseChange: (index: number, newExercise: Exercise) => void;
+  onExerciseChange: (index: number, newExercise: Exercise, prescription?: ExercisePrescription) => void;
 }
 
 interface ExerciseSetLog {
@@ -48,7 +49,7 @@ interface Particle {
   gravity: number;
 }
 
-export default function WorkoutSessionPage({ userProfile, workout: initialWorkout, workoutType, onBack, onExerciseChange }: WorkoutSessionPageProps) {
+export default function WorkoutSessionPage({ userProfile, workout: initialWorkout, workoutType, gymId, onBack, onExerciseChange }: WorkoutSessionPageProps) {
   const [workout, setWorkout] = useState<WorkoutExercise[]>(initialWorkout);
   const [currentExerciseIdx, setCurrentExerciseIdx] = useState<number>(0);
   const [currentSetIdx, setCurrentSetIdx] = useState<number>(0);
@@ -65,6 +66,8 @@ export default function WorkoutSessionPage({ userProfile, workout: initialWorkou
   const [customSetsCount, setCustomSetsCount] = useState<Record<number, number>>({});
   const [sessionRestored, setSessionRestored] = useState(false);
   const [weightChangeIndicator, setWeightChangeIndicator] = useState<'up' | 'down' | null>(null);
+  // Reused by every save attempt, including after a reload, so the canister records this session once
+  const [clientId] = useState<string>(() => loadWorkoutSession()?.clientId ?? crypto.randomUUID());
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const particlesRef = useRef<Particle[]>([]);
   const animationFrameRef = useRef<number | null>(null);
@@ -72,8 +75,16 @@ export default function WorkoutSessionPage({ userProfile, workout: initialWorkou
   const saveWorkoutMutation = useSaveWorkout();
   const { data: workoutHistory = [] } = useGetWorkoutHistory();
   const saveSetConfig = useSaveSetConfiguration();
-  const { data: setConfigurations = {} } = useGetSetConfiguration();
-  const clearSetConfigs = useClearSetConfigurations();
+  const {
+    data: setConfigurations,
+    isFetched: setConfigurationsFetched,
+    isPending: setConfigurationsPending,
+    fetchStatus: setConfigurationsFetchStatus,
+  } = useGetSetConfiguration();
+  // Snapshot of remembered weights taken once, so refetches after each saved exercise don't reset the logs
+  const [rememberedConfigs, setRememberedConfigs] = useState<Record<string, SetConfiguration> | null>(null);
+  // Exercises with logged sets when the snapshot was taken; the prescription progresses from these
+  const [loggedExercises, setLoggedExercises] = useState<Set<string>>(new Set());
   const updateSuggestedWeight = useUpdateSuggestedWeightDuringSession();
 
   // Wake Lock integration with robust status tracking
@@ -166,10 +177,21 @@ export default function WorkoutSessionPage({ userProfile, workout: initialWorkou
     restoreSession();
   }, [sessionRestored]);
 
+  useEffect(() => {
+    if (rememberedConfigs !== null) return;
+    const settled = setConfigurationsFetched || (setConfigurationsPending && setConfigurationsFetchStatus !== 'fetching');
+    if (!settled) return;
+    setLoggedExercises(
+      new Set(workoutHistory.flatMap((w) => w.exercises.filter((ex) => ex.setData.length > 0).map((ex) => ex.exercise.name)))
+    );
+    // A disabled (no actor) or paused (offline) query starts the session without remembered weights
+    setRememberedConfigs(setConfigurationsFetched ? (setConfigurations ?? {}) : {});
+  }, [setConfigurationsFetched, setConfigurationsPending, setConfigurationsFetchStatus, setConfigurations, rememberedConfigs, workoutHistory]);
+
   useEffect(() => {
     const initializeLogs = () => {
-      // Skip initialization if session was restored
-      if (sessionRestored) return;
+      // Skip initialization if session was restored or remembered weights haven't loaded yet
+      if (sessionRestored || rememberedConfigs === null) return;
 
       const initialLogs: Record<number, ExerciseSetLog[]> = {};
       const initialSetsCount: Record<number, number> = {};
@@ -178,25 +200,17 @@ export default function WorkoutSessionPage({ userProfile, workout: initialWorkou
         const ex = workout[idx];
         const exerciseName = ex.exercise.name;
         
-        const savedConfig = setConfigurations[exerciseName];
+        const savedConfig = rememberedConfigs[exerciseName];
         
-        if (savedConfig) {
-          const sets = Number(savedConfig.sets);
-          initialSetsCount[idx] = sets;
-          initialLogs[idx] = Array(sets).fill(null).map(() => ({
-            weight: formatWeight(savedConfig.weight),
-            reps: String(savedConfig.reps),
-            completed: false,
-          }));
-        } else {
-          const sets = Number(ex.sets);
-          initialSetsCount[idx] = sets;
-          initialLogs[idx] = Array(sets).fill(null).map(() => ({
-            weight: formatWeight(ex.suggestedWeight),
-            reps: String(ex.reps),
-            completed: false,
-          }));
-        }
+        // Once an exercise has logged sets the prescription progresses from them, so the
+        // remembered config only carries over the set count. Before that the prescription is
+        // a bodyweight estimate, and the weight and reps the user last chose are the better start.
+        const sets = savedConfig ? Number(savedConfig.sets) : Number(ex.sets);
+        const useRemembered = savedConfig !== undefined && !loggedExercises.has(exerciseName);
+        const weight = formatWeight(useRemembered ? savedConfig.weight : ex.suggestedWeight);
+        const reps = String(useRemembered ? savedConfig.reps : ex.reps);
+        initialSetsCount[idx] = sets;
+        initialLogs[idx] = Array(sets).fill(null).map(() => ({ weight, reps, completed: false }));
       }
       
       setExerciseLogs(initialLogs);
@@ -204,7 +218,7 @@ export default function WorkoutSessionPage({ userProfile, workout: initialWorkou
     };
 
     initializeLogs();
-  }, [workout, sessionRestored, setConfigurations]);
+  }, [workout, sessionRestored, rememberedConfigs, loggedExercises]);
 
   // Save session state whenever it changes
   useEffect(() => {
@@ -216,10 +230,11 @@ export default function WorkoutSessionPage({ userProfile, workout: initialWorkou
         currentSetIdx,
         exerciseLogs,
         customSetsCount,
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        clientId,
       });
     }
-  }, [currentExerciseIdx, currentSetIdx, exerciseLogs, customSetsCount, workout, workoutType]);
+  }, [currentExerciseIdx, currentSetIdx, exerciseLogs, customSetsCount, workout, workoutType, clientId]);
 
   useEffect(() => {
     let interval: NodeJS.Timeout | null = null;
@@ -674,19 +689,24 @@ export default function WorkoutSessionPage({ userProfile, workout: initialWorkou
     }, 0);
     
     const workoutData = {
+      clientId,
       exercises: completedExercises,
-      timestamp: BigInt(Date.now()),
+      // Backend timestamps are nanoseconds, matching Time.now() on the canister
+      timestamp: BigInt(Date.now()) * 1_000_000n,
       totalVolume,
+      gymId,
     };
     
     try {
-      await saveWorkoutMutation.mutateAsync(workoutData);
+      // Null means the workout is queued offline; the session is still done
+      const saved = await saveWorkoutMutation.mutateAsync(workoutData);
       clearWorkoutSession();
-      clearSetConfigs.mutate();
       createConfetti();
       playVictorySound();
       handleVibrate([50, 100, 50, 100, 50]);
-      toast.success('Workout saved successfully! 🎉', { duration: 3000 });
+      if (saved) {
+        toast.success('Workout saved successfully! 🎉', { duration: 3000 });
+      }
       setTimeout(() => {
         onBack();
       }, 1500);
@@ -850,14 +870,16 @@ export default function WorkoutSessionPage({ userProfile, workout: initialWorkou
                     {currentExercise.exercise.equipmentType}
                   </p>
                 </div>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => window.open(currentExercise.exercise.demoUrl, '_blank')}
-                  className="shrink-0"
-                >
-                  <ExternalLink className="h-5 w-5" />
-                </Button>
+                {currentExercise.exercise.demoUrl && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => window.open(currentExercise.exercise.demoUrl, '_blank')}
+                    className="shrink-0"
+                  >
+                    <ExternalLink className="h-5 w-5" />
+                  </Button>
+                )}
               </div>
 
               <div className="flex items-center justify-between rounded-lg bg-muted p-4">
@@ -1073,8 +1095,11 @@ export default function WorkoutSessionPage({ userProfile, workout: initialWorkou
         open={changeModalOpen}
         onOpenChange={setChangeModalOpen}
         currentExercise={currentExercise.exercise}
-        onExerciseSelected={(newExercise) => {
-          onExerciseChange(currentExerciseIdx, newExercise);
+        excludeNames={workout.map((we) => we.exercise.name)}
+        availableEquipment={userProfile.availableEquipment}
+        gymId={gymId}
+        onExerciseSelected={(newExercise, prescription) => {
+          onExerciseChange(currentExerciseIdx, newExercise, prescription);
           setChangeModalOpen(false);
         }}
       />
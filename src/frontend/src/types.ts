@@ -1,14 +1,49 @@
 // Frontend-only types that extend or complement the backend interface
 // These types are used by the frontend but not exported from the backend
 
+import type { MovementPattern } from './backend';
+
 export interface Exercise {
   name: string;
   primaryMuscleGroup: string;
+  secondaryMuscleGroups: string[];
+  movementPattern: MovementPattern;
+  compound: boolean;
   equipmentType: string;
   demoUrl: string;
   recoveryTime: number;
 }
 
+export interface CustomExercise {
+  id: number;
+  exercise: Exercise;
+}
+
+export interface LibraryExercise {
+  id: number;
+  exercise: Exercise;
+  deprecated: boolean;
+}
+
+export interface LibraryCoverage {
+  target: string;
+  activeCount: number;
+  deprecatedCount: number;
+  generatorLimit: number;
+}
+
+export interface AlternativeExercise {
+  exercise: Exercise;
+  reason: string;
+  suggestedWeight: number;
+  reps: number;
+}
+
+export interface ExercisePrescription {
+  suggestedWeight: number;
+  reps: number;
+}
+
 export interface SetData {
   weight: number;
   reps: number;
@@ -22,10 +57,30 @@ export interface WorkoutExercise {
   setData: SetData[];
 }
 
+export interface TemplateExercise {
+  exercise: Exercise;
+  sets: number;
+  reps: number;
+  targetWeight: number;
+}
+
+export interface WorkoutTemplate {
+  id: number;
+  name: string;
+  exercises: TemplateExercise[];
+  updatedAt: bigint;
+}
+
 export interface Workout {
+  // Assigned by the canister when the workout is saved
+  id?: number;
+  // Generated once per session so a retried save returns the workout it already created.
+  // Empty for workouts logged before keys existed; the canister rejects saving those again.
+  clientId: string;
   exercises: WorkoutExercise[];
   timestamp: bigint;
   totalVolume: number;
+  gymId?: number;
 }
 
 export interface MuscleRecovery {
@@ -67,8 +122,9 @@ export interface ExerciseChange {
 
 export interface MuscleGroupVolume {
   muscleGroup: string;
-  weeklyVolume: number;
-  intensity: number;
+  bucketStart: bigint;
+  tonnage: number;
+  hardSets: number;
 }
 
 export interface DailyWorkoutIntensity {
@@ -1,3 +1,6 @@
+import { createHash } from 'crypto';
+import { readdirSync, readFileSync, statSync } from 'fs';
+import { join } from 'path';
 import { fileURLToPath, URL } from 'url';
 import react from '@vitejs/plugin-react';
 import { defineConfig } from 'vite';
@@ -11,6 +14,53 @@ const ii_url =
 process.env.II_URL = process.env.II_URL || ii_url;
 process.env.STORAGE_GATEWAY_URL = process.env.STORAGE_GATEWAY_URL || 'https://blob.caffeine.ai';
 
+// Emits sw.js from service-worker.js with this build's files to precache, including every lazily
+// loaded page chunk, the manifest's icons and env.json, and a cache version hashed from the content
+// of every bundled and public file and of the worker itself, so it changes whenever anything the
+// worker can cache does. env.json is deploy-specific, so the worker refreshes it network-first instead.
+function serviceWorker() {
+    return {
+        name: 'fittrack-service-worker',
+        apply: 'build',
+        enforce: 'post',
+        generateBundle(_options, bundle) {
+            const files = Object.keys(bundle)
+                .filter((fileName) => !fileName.endsWith('.map'))
+                .sort();
+            const template = readFileSync(fileURLToPath(new URL('./service-worker.js', import.meta.url)), 'utf8');
+            const publicDir = fileURLToPath(new URL('./public', import.meta.url));
+            const publicFiles = readdirSync(publicDir, { recursive: true })
+                .filter((name) => statSync(join(publicDir, name)).isFile())
+                .sort();
+            const hash = createHash('sha256').update(template);
+            for (const fileName of files) {
+                const output = bundle[fileName];
+                hash.update(fileName).update(output.type === 'chunk' ? output.code : output.source);
+            }
+            for (const name of publicFiles) {
+                hash.update(name).update(readFileSync(join(publicDir, name)));
+            }
+            const version = hash.digest('hex').slice(0, 12);
+            const manifest = JSON.parse(readFileSync(join(publicDir, 'manifest.json'), 'utf8'));
+            const icons = (manifest.icons ?? []).map((icon) => (icon.src.startsWith('/') ? icon.src : `/${icon.src}`));
+            const urls = [
+                ...new Set([
+                    '/',
+                    '/index.html',
+                    '/manifest.json',
+                    '/env.json',
+                    ...icons,
+                    ...files.map((fileName) => `/${fileName}`)
+                ])
+            ];
+            const source = template
+                .replace('__CACHE_VERSION__', JSON.stringify(version))
+                .replace('__PRECACHE_URLS__', JSON.stringify(urls));
+            this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+        }
+    };
+}
+
 export default defineConfig({
     logLevel: 'error',
     build: {
@@ -41,7 +91,8 @@ export default defineConfig({
         environment('all', { prefix: 'DFX_' }),
         environment(['II_URL']),
         environment(['STORAGE_GATEWAY_URL']),
-        react()
+        react(),
+        serviceWorker()
     ],
     resolve: {
         alias: [